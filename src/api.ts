@@ -9,10 +9,86 @@ import {
   ApiError,
   Profile,
   Problemset,
+  Course,
 } from './types'
 import * as querystring from 'querystring'
 import * as https from 'https'
+import * as fs from 'fs'
 import { CacheService } from './cache'
+import { ServerProfile, ServerProfileService } from './serverProfiles'
+import {
+  ApiRequestError,
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from './errors'
+
+const CONNECTIVITY_CHECK_INTERVAL = 30000 // How often to check whether the server is back while offline
+
+const MAX_RETRY_AFTER = 60000 // Longest wait honored from a Retry-After header
+
+/**
+ * Limits the number of requests running at the same time
+ */
+class RequestLimiter {
+  private active: number = 0
+  private waiting: (() => void)[] = []
+
+  constructor(private maxConcurrent: number) {}
+
+  setMaxConcurrent(maxConcurrent: number) {
+    this.maxConcurrent = maxConcurrent
+    // Start the requests the new limit allows
+    for (let i = this.active; i < maxConcurrent; i++) {
+      this.waiting.shift()?.()
+    }
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    while (this.active >= this.maxConcurrent) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve))
+    }
+    this.active++
+    try {
+      return await task()
+    } finally {
+      this.active--
+      this.waiting.shift()?.()
+    }
+  }
+}
+
+/**
+ * Parse a Retry-After header, either in seconds or as an HTTP date
+ * @returns the delay in milliseconds
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(seconds * 1000, 0)
+  const date = Date.parse(String(value))
+  return isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+}
+
+/**
+ * Extract the cursor from the `next` link of a paginated response
+ */
+export function parseCursor(next: string | null): string | undefined {
+  if (!next) return undefined
+  const query = next.includes('?') ? next.slice(next.indexOf('?') + 1) : next
+  return new URLSearchParams(query).get('cursor') || undefined
+}
+
+// Filters of the submission list endpoint
+export interface SubmissionFilter {
+  username?: string
+  problemId?: number
+  status?: string
+  lang?: string
+}
 
 export class ApiClient {
   private axiosInstance: AxiosInstance
@@ -20,25 +96,157 @@ export class ApiClient {
   private cacheService: CacheService
   private retryCount: number = 3
   private retryDelay: number = 1000
-
-  constructor(authService: AuthService) {
+  private cacheDir: string | undefined
+  private maxCacheBytes: number
+  private baseUrl: string
+  private configListener: vscode.Disposable
+  private online: boolean = true
+  private limiter: RequestLimiter
+  private inFlight: Map<string, Promise<any>> = new Map() // GET requests being made, by URL and params
+  private rateLimitedUntil: number = 0 // Set by 429 responses
+  private connectivityTimer: NodeJS.Timeout | undefined
+
+  private _onDidChangeConnectivity = new vscode.EventEmitter<boolean>()
+  public readonly onDidChangeConnectivity = this._onDidChangeConnectivity.event
+
+  // Fired with the new base URL when the server changes, either because
+  // another server profile was chosen or because its URL was edited
+  private _onDidChangeServer = new vscode.EventEmitter<string>()
+  public readonly onDidChangeServer = this._onDidChangeServer.event
+
+  /**
+   * @param storageUri directory to keep the offline cache in
+   * @param token token to use instead of the active account's, e.g. to
+   * validate a new one
+   */
+  constructor(
+    authService: AuthService,
+    private serverProfiles: ServerProfileService,
+    private storageUri?: vscode.Uri,
+    private token?: string,
+  ) {
     this.authService = authService
-    this.cacheService = new CacheService(15) // Default 15 minutes TTL
 
     const config = vscode.workspace.getConfiguration('acmoj')
-    const baseUrl = config.get<string>('baseUrl', 'https://acm.sjtu.edu.cn')
+    this.cacheDir = this.getCacheDir()
+    this.maxCacheBytes =
+      config.get<number>('offlineCacheSizeMB', 50) * 1024 * 1024
+    this.cacheService = new CacheService(
+      config.get<number>('cacheTTL', 15), // Default 15 minutes TTL
+      this.cacheDir,
+      this.maxCacheBytes,
+      () => this.isOnline(),
+    )
+
+    this.baseUrl = serverProfiles.getActiveProfile().baseUrl
+    this.axiosInstance = this.createAxiosInstance(this.baseUrl)
 
     // Get retry settings from configuration
     this.retryCount = config.get<number>('apiRetryCount', 3)
     this.retryDelay = config.get<number>('apiRetryDelay', 1000)
+    this.limiter = new RequestLimiter(
+      Math.max(config.get<number>('maxConcurrentRequests', 4), 1),
+    )
+
+    this.configListener = vscode.Disposable.from(
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('acmoj')) {
+          this.reloadConfiguration()
+        }
+      }),
+      serverProfiles.onDidChangeActiveProfile((profile) =>
+        this.useServer(profile),
+      ),
+      authService.onDidChangeProfile(() => this.useAccountCache()),
+      authService.onDidRemoveAccount((profile) =>
+        this.deleteAccountCache(profile.username),
+      ),
+    )
+  }
+
+  /**
+   * Apply changed settings without a window reload
+   */
+  private reloadConfiguration() {
+    const config = vscode.workspace.getConfiguration('acmoj')
+
+    this.retryCount = config.get<number>('apiRetryCount', 3)
+    this.retryDelay = config.get<number>('apiRetryDelay', 1000)
+    this.limiter.setMaxConcurrent(
+      Math.max(config.get<number>('maxConcurrentRequests', 4), 1),
+    )
+    this.maxCacheBytes =
+      config.get<number>('offlineCacheSizeMB', 50) * 1024 * 1024
+    this.cacheService.setMaxPersistentBytes(this.maxCacheBytes)
+    this.cacheService.setDefaultTTL(config.get<number>('cacheTTL', 15))
+  }
+
+  /**
+   * Send requests to the server of a profile. Each profile has its own
+   * offline cache; if the URL of the current one changed, its cached
+   * responses are dropped since they belong to the old server.
+   */
+  private useServer(profile: ServerProfile) {
+    const cacheDir = this.getCacheDir()
+    if (profile.baseUrl === this.baseUrl && cacheDir === this.cacheDir) return
+
+    console.log(
+      `ACMOJ server changed: ${this.baseUrl} -> ${profile.baseUrl} (${profile.name})`,
+    )
+    this.baseUrl = profile.baseUrl
+    this.axiosInstance = this.createAxiosInstance(profile.baseUrl)
+    this.inFlight.clear()
+    if (cacheDir === this.cacheDir) {
+      this.clearCache(true)
+    } else {
+      this.cacheDir = cacheDir
+      this.cacheService.setStorageDir(cacheDir)
+    }
+    this.setOnline(true) // Unknown until the new server is asked
+    this._onDidChangeServer.fire(profile.baseUrl)
+  }
+
+  /**
+   * Each account has a cache of its own, so no data of one account is shown
+   * to another
+   */
+  private useAccountCache() {
+    const cacheDir = this.getCacheDir()
+    if (cacheDir === this.cacheDir) return
+    this.inFlight.clear()
+    this.cacheDir = cacheDir
+    this.cacheService.setStorageDir(cacheDir) // Also drops the memory tier
+  }
+
+  private async deleteAccountCache(username: string) {
+    const cacheDir = this.getCacheDir(username)
+    if (!cacheDir || cacheDir === this.cacheDir) return
+    try {
+      await fs.promises.rm(cacheDir, { recursive: true, force: true })
+    } catch (error) {
+      console.warn(`Failed to delete the cache of ${username}:`, error)
+    }
+  }
+
+  private getCacheDir(
+    username: string | undefined = this.authService.getProfile()?.username,
+  ): string | undefined {
+    return this.storageUri
+      ? vscode.Uri.joinPath(
+          this.storageUri,
+          this.serverProfiles.scopedDirName('cache', username),
+        ).fsPath
+      : undefined
+  }
 
+  private createAxiosInstance(baseUrl: string): AxiosInstance {
     const httpsAgent = new https.Agent({
       rejectUnauthorized: true,
       keepAlive: true,
       timeout: 15000,
     })
 
-    this.axiosInstance = axios.create({
+    const axiosInstance = axios.create({
       baseURL: `${baseUrl}/OnlineJudge/api/v1`,
       headers: {
         Accept: 'application/json',
@@ -50,9 +258,14 @@ export class ApiClient {
     })
 
     // Request interceptor - GETS THE TOKEN
-    this.axiosInstance.interceptors.request.use(
+    axiosInstance.interceptors.request.use(
       async (config) => {
-        const token = await this.authService.getToken()
+        // Never send the token to another host
+        const target = new URL(config.url ?? '', config.baseURL)
+        if (target.origin !== new URL(baseUrl).origin) {
+          return config
+        }
+        const token = this.token ?? (await this.authService.getToken())
         if (token && config.headers) {
           config.headers.Authorization = `Bearer ${token}`
         }
@@ -64,45 +277,143 @@ export class ApiClient {
     )
 
     // Response interceptor - HANDLES ERRORS
-    this.axiosInstance.interceptors.response.use(
-      (response) => response,
+    axiosInstance.interceptors.response.use(
+      (response) => {
+        this.setOnline(true)
+        return response
+      },
       async (error: AxiosError<ApiError>) => {
-        const originalRequest = error.config
-
-        // Detect TLS/socket connection issues
-        if (
-          error.message &&
-          (error.message.includes('socket') ||
-            error.message.includes('TLS') ||
-            error.message.includes('ECONNREFUSED') ||
-            error.message.includes('ENOTFOUND') ||
-            error.message.includes('timeout'))
-        ) {
+        const endpoint = error.config?.url
+        const response = error.response
+
+        // No response at all: DNS, connection, TLS or timeout failure
+        if (!response) {
+          if (error.code === AxiosError.ERR_CANCELED) {
+            return Promise.reject(error)
+          }
           console.error('TLS/Socket connection error:', error.message)
+          this.setOnline(false)
+          return Promise.reject(
+            new NetworkError(error.message, endpoint, error.code),
+          )
+        }
 
+        // Any response means the server is reachable
+        this.setOnline(true)
+
+        const status = response.status
+        const message = response.data?.message || error.message
+        if (status === 401) {
+          if (this.token === undefined) {
+            console.warn('API request unauthorized (401). Invalidating token.')
+            await this.authService.handleUnauthorizedError(
+              String(error.config?.headers?.Authorization ?? '').replace(
+                /^Bearer /,
+                '',
+              ),
+            )
+          }
           return Promise.reject(
-            new Error(
-              `Network connectivity issue: ${error.message}. Try checking your network connection or VPN settings.`,
+            new AuthError(
+              'Invalid or expired token. Please set a new one.',
+              status,
+              endpoint,
             ),
           )
         }
-
-        if (error.response?.status === 401 && originalRequest) {
-          console.warn('API request unauthorized (401). Invalidating token.')
-          await this.authService.handleUnauthorizedError()
+        if (status === 403) {
+          return Promise.reject(new AuthError(message, status, endpoint))
+        }
+        if (status === 404) {
+          return Promise.reject(new NotFoundError(message, status, endpoint))
+        }
+        if (status === 429) {
           return Promise.reject(
-            new Error('Invalid or expired token. Please set a new one.'),
+            new RateLimitError(
+              message,
+              endpoint,
+              parseRetryAfter(response.headers?.['retry-after']),
+            ),
           )
         }
-        // rest of error handling
-        const apiErrorMessage = error.response?.data?.message || error.message
-        return Promise.reject(new Error(apiErrorMessage))
+        if (status >= 500) {
+          return Promise.reject(new ServerError(message, status, endpoint))
+        }
+        return Promise.reject(new ValidationError(message, status, endpoint))
       },
     )
+    return axiosInstance
+  }
+
+  /**
+   * Whether the server was reachable on the last request. While offline, the
+   * server is checked periodically until it responds again.
+   */
+  isOnline(): boolean {
+    return this.online
   }
 
-  // Request method with retry mechanism
-  private async requestWithRetry<T>(
+  private setOnline(online: boolean) {
+    if (this.online === online) return
+    this.online = online
+    console.log(`ACMOJ server is ${online ? 'reachable again' : 'unreachable'}`)
+
+    if (online) {
+      clearInterval(this.connectivityTimer)
+      this.connectivityTimer = undefined
+    } else {
+      this.connectivityTimer = setInterval(
+        () => this.checkConnectivity(),
+        CONNECTIVITY_CHECK_INTERVAL,
+      )
+    }
+    this._onDidChangeConnectivity.fire(online)
+  }
+
+  /**
+   * Make a request just to find out if the server is reachable. The
+   * interceptors update the connectivity state.
+   */
+  async checkConnectivity(): Promise<boolean> {
+    try {
+      await this.axiosInstance.get('/user/profile')
+    } catch {
+      // Handled by the interceptors
+    }
+    return this.online
+  }
+
+  dispose() {
+    clearInterval(this.connectivityTimer)
+    this.cacheService.dispose()
+    this.configListener.dispose()
+    this._onDidChangeConnectivity.dispose()
+    this._onDidChangeServer.dispose()
+  }
+
+  // Request method with retry mechanism. Identical GET requests made while
+  // one is in flight share its result.
+  private requestWithRetry<T>(
+    method: string,
+    url: string,
+    options: any = {},
+  ): Promise<T> {
+    if (method.toLowerCase() !== 'get') {
+      return this.sendWithRetry<T>(method, url, options)
+    }
+
+    const key = `${url}?${JSON.stringify(options.params ?? {})}`
+    let request = this.inFlight.get(key)
+    if (!request) {
+      request = this.sendWithRetry<T>(method, url, options).finally(() =>
+        this.inFlight.delete(key),
+      )
+      this.inFlight.set(key, request)
+    }
+    return request
+  }
+
+  private async sendWithRetry<T>(
     method: string,
     url: string,
     options: any = {},
@@ -111,30 +422,56 @@ export class ApiClient {
     let attempt = 0
 
     while (attempt < this.retryCount) {
+      // Hold back every request while the server asks us to slow down
+      const rateLimitWait = this.rateLimitedUntil - Date.now()
+      if (rateLimitWait > 0) {
+        await new Promise((resolve) => setTimeout(resolve, rateLimitWait))
+      }
+
+      const wasOnline = this.online
       try {
-        let response
-        if (method.toLowerCase() === 'get') {
-          response = await this.axiosInstance.get(url, options)
-        } else if (method.toLowerCase() === 'post') {
-          response = await this.axiosInstance.post(
-            url,
-            options.data,
-            options.config,
-          )
-        }
+        const response = await this.limiter.run(() => {
+          if (method.toLowerCase() === 'post') {
+            return this.axiosInstance.post(url, options.data, options.config)
+          }
+          return this.axiosInstance.get(url, options)
+        })
         return response?.data
       } catch (error: any) {
         lastError = error
+        attempt++
+
+        if (error instanceof RateLimitError) {
+          const retryAfter = error.retryAfterMs ?? this.retryDelay * attempt
+          this.rateLimitedUntil = Math.max(
+            this.rateLimitedUntil,
+            Date.now() + Math.min(retryAfter, MAX_RETRY_AFTER),
+          )
+          console.warn(
+            `Rate limited by the server, retrying in ${retryAfter} ms: ${url}`,
+          )
+          continue
+        }
+
+        // Only network and server errors may go away by retrying
+        if (!(error instanceof NetworkError || error instanceof ServerError)) {
+          break
+        }
+        // Already offline before sending: fail fast, the connectivity check
+        // finds out when the server is back
+        if (error instanceof NetworkError && !wasOnline) {
+          break
+        }
 
-        // Don't retry for 401 errors or other specific client errors
+        // A POST that may have reached the server must not be sent twice
         if (
-          error.response?.status === 401 ||
-          (error.response?.status >= 400 && error.response?.status < 500)
+          method.toLowerCase() === 'post' &&
+          error instanceof NetworkError &&
+          !error.connectionFailed
         ) {
           break
         }
 
-        attempt++
         if (attempt < this.retryCount) {
           // Wait before retrying
           await new Promise((resolve) =>
@@ -147,16 +484,33 @@ export class ApiClient {
 
     throw (
       lastError ||
-      new Error('Request failed, please check your network connection')
+      new ApiRequestError(
+        'Request failed, please check your network connection',
+        undefined,
+        url,
+      )
     )
   }
 
-  // Clear all cache
-  clearCache() {
-    this.cacheService.clear()
+  // Clear all cache, including the offline copies on disk if requested
+  async clearCache(includePersistent: boolean = false) {
+    if (includePersistent) {
+      await this.cacheService.clearPersistent()
+    } else {
+      this.cacheService.clear()
+    }
     console.log('All cache cleared')
   }
 
+  /**
+   * If the result of an API call is an offline copy served because the
+   * server could not be reached, get the time it was fetched
+   */
+  getStaleSince(data: unknown): Date | undefined {
+    const storedAt = this.cacheService.getStaleSince(data)
+    return storedAt !== undefined ? new Date(storedAt) : undefined
+  }
+
   // Get cache service instance
   getCacheService(): CacheService {
     return this.cacheService
@@ -164,7 +518,7 @@ export class ApiClient {
 
   // Set cache TTL
   setCacheTTL(ttlMinutes: number) {
-    this.cacheService = new CacheService(ttlMinutes)
+    this.cacheService.setDefaultTTL(ttlMinutes)
   }
 
   // --- Problem Endpoints ---
@@ -207,9 +561,47 @@ export class ApiClient {
         return response
       },
       30,
+      true,
     ) // Cache for 30 minutes, problem content rarely changes
   }
 
+  /**
+   * Iterate over all problems matching the filters, fetching pages as
+   * needed. Stops early when the token is cancelled.
+   */
+  async *iterateProblems(
+    keyword?: string,
+    problemsetId?: number,
+    token?: vscode.CancellationToken,
+  ): AsyncGenerator<ProblemBrief> {
+    let cursor: string | undefined
+    do {
+      if (token?.isCancellationRequested) return
+      const { problems, next } = await this.getProblems(
+        cursor,
+        keyword,
+        problemsetId,
+      )
+      yield* problems
+      cursor = parseCursor(next)
+    } while (cursor)
+  }
+
+  /**
+   * Fetch up to `limit` problems matching the filters
+   */
+  async getAllProblems(
+    keyword?: string,
+    problemsetId?: number,
+    limit: number = Infinity,
+    token?: vscode.CancellationToken,
+  ): Promise<ProblemBrief[]> {
+    return takeFromIterable(
+      this.iterateProblems(keyword, problemsetId, token),
+      limit,
+    )
+  }
+
   // --- Problemset Endpoints ---
 
   async getUserProblemsets(): Promise<{ problemsets: Problemset[] }> {
@@ -223,8 +615,9 @@ export class ApiClient {
         }>('get', '/user/problemsets')
         return response
       },
-      15,
-    ) // Cache for 15 minutes
+      undefined,
+      true,
+    ) // Cache for the default TTL (`acmoj.cacheTTL`)
   }
 
   async getProblemsetDetails(problemsetId: number): Promise<Problemset> {
@@ -240,6 +633,7 @@ export class ApiClient {
         return response
       },
       20,
+      true,
     ) // Cache for 20 minutes
   }
 
@@ -297,6 +691,40 @@ export class ApiClient {
     ) // Cache for only 2 minutes, submission status changes quickly
   }
 
+  /**
+   * Iterate over all submissions matching the filter, newest first, fetching
+   * pages as needed. Stops early when the token is cancelled.
+   */
+  async *iterateSubmissions(
+    filter: SubmissionFilter = {},
+    token?: vscode.CancellationToken,
+  ): AsyncGenerator<SubmissionBrief> {
+    let cursor: string | undefined
+    do {
+      if (token?.isCancellationRequested) return
+      const { submissions, next } = await this.getSubmissions(
+        cursor,
+        filter.username,
+        filter.problemId,
+        filter.status,
+        filter.lang,
+      )
+      yield* submissions
+      cursor = parseCursor(next)
+    } while (cursor)
+  }
+
+  /**
+   * Fetch up to `limit` submissions matching the filter
+   */
+  async getAllSubmissions(
+    filter: SubmissionFilter = {},
+    limit: number = Infinity,
+    token?: vscode.CancellationToken,
+  ): Promise<SubmissionBrief[]> {
+    return takeFromIterable(this.iterateSubmissions(filter, token), limit)
+  }
+
   async expireSubmissionCache(submissionId: number): Promise<void> {
     const cacheKey = `submission:${submissionId}`
     this.cacheService.delete(cacheKey)
@@ -325,12 +753,14 @@ export class ApiClient {
       cacheKey,
       async () => {
         try {
-          const response = await axios.get<string>(codeUrl, {
-            baseURL: this.axiosInstance.defaults.baseURL?.replace(
-              '/api/v1',
-              '',
-            ),
-          })
+          const response = await this.limiter.run(() =>
+            axios.get<string>(codeUrl, {
+              baseURL: this.axiosInstance.defaults.baseURL?.replace(
+                '/api/v1',
+                '',
+              ),
+            }),
+          )
           return response.data
         } catch (error) {
           console.error(`Failed to fetch code from ${codeUrl}:`, error)
@@ -338,6 +768,7 @@ export class ApiClient {
         }
       },
       30,
+      true,
     ) // Cache for 30 minutes, code content doesn't change
   }
 
@@ -364,19 +795,146 @@ export class ApiClient {
   async getUserProfile(): Promise<Profile> {
     const cacheKey = 'user:profile'
 
+    return this.cacheService.getOrFetch(cacheKey, async () => {
+      const response = await this.requestWithRetry<Profile>(
+        'get',
+        '/user/profile',
+      )
+      return response
+    }) // Cache for the default TTL (`acmoj.cacheTTL`)
+  }
+
+  // --- Course Endpoints ---
+
+  async getCourses(
+    cursor?: string,
+    keyword?: string,
+  ): Promise<{ courses: Course[]; next: string | null }> {
+    const cacheKey = `courses:${cursor || ''}:${keyword || ''}`
+
     return this.cacheService.getOrFetch(
       cacheKey,
       async () => {
-        const response = await this.requestWithRetry<Profile>(
+        const params: Record<string, any> = {}
+        if (cursor) params.cursor = cursor
+        if (keyword) params.keyword = keyword
+
+        const response = await this.requestWithRetry<{
+          courses: Course[]
+          next: string | null
+        }>('get', '/course/', { params })
+        return response
+      },
+      30,
+    ) // Cache for 30 minutes, courses change once a term
+  }
+
+  /**
+   * Iterate over all courses matching the keyword, fetching pages as needed.
+   * Stops early when the token is cancelled.
+   */
+  async *iterateCourses(
+    keyword?: string,
+    token?: vscode.CancellationToken,
+  ): AsyncGenerator<Course> {
+    let cursor: string | undefined
+    do {
+      if (token?.isCancellationRequested) return
+      const { courses, next } = await this.getCourses(cursor, keyword)
+      yield* courses
+      cursor = parseCursor(next)
+    } while (cursor)
+  }
+
+  /**
+   * Fetch up to `limit` courses matching the keyword
+   */
+  async getAllCourses(
+    limit: number = Infinity,
+    keyword?: string,
+    token?: vscode.CancellationToken,
+  ): Promise<Course[]> {
+    return takeFromIterable(this.iterateCourses(keyword, token), limit)
+  }
+
+  async getCourseDetails(courseId: number): Promise<Course> {
+    const cacheKey = `course:${courseId}`
+
+    return this.cacheService.getOrFetch(
+      cacheKey,
+      async () => {
+        const response = await this.requestWithRetry<Course>(
           'get',
-          '/user/profile',
+          `/course/${courseId}`,
         )
         return response
       },
-      15,
-    ) // Cache for 15 minutes
+      20,
+      true,
+    ) // Cache for 20 minutes
   }
 
-  // --- Course Endpoints ---
-  // TODO: Implement course endpoints.
+  // --- Membership ---
+
+  async joinProblemset(problemset: Problemset): Promise<void> {
+    if (!problemset.join_url) {
+      throw new Error(`Problemset ${problemset.id} cannot be joined.`)
+    }
+    await this.requestWithRetry<void>(
+      'post',
+      this.toApiUrl(problemset.join_url),
+    )
+    this.clearMembershipCache(problemset)
+  }
+
+  async quitProblemset(problemset: Problemset): Promise<void> {
+    if (!problemset.quit_url) {
+      throw new Error(`Problemset ${problemset.id} cannot be quit.`)
+    }
+    await this.requestWithRetry<void>(
+      'post',
+      this.toApiUrl(problemset.quit_url),
+    )
+    this.clearMembershipCache(problemset)
+  }
+
+  private clearMembershipCache(problemset: Problemset) {
+    this.cacheService.delete('user:problemsets')
+    this.cacheService.delete(`problemset:${problemset.id}`)
+    if (problemset.course) {
+      this.cacheService.delete(`course:${problemset.course.id}`)
+    }
+  }
+
+  /**
+   * Links in API responses are absolute or relative to the site root. Turn
+   * them into paths relative to the API base URL where possible.
+   * @throws Error if the link points to another server
+   */
+  private toApiUrl(url: string): string {
+    const baseURL = this.axiosInstance.defaults.baseURL!
+    const resolved = new URL(url, baseURL)
+    if (resolved.origin !== new URL(baseURL).origin) {
+      throw new Error(
+        `Refusing to send a request to ${resolved.origin}, which is not the ACMOJ server.`,
+      )
+    }
+    const apiPath = new URL(baseURL).pathname
+    return resolved.pathname.startsWith(apiPath)
+      ? resolved.pathname.slice(apiPath.length) + resolved.search
+      : resolved.toString()
+  }
+}
+
+async function takeFromIterable<T>(
+  items: AsyncIterable<T>,
+  limit: number,
+): Promise<T[]> {
+  const result: T[] = []
+  if (limit <= 0) return result
+  for await (const item of items) {
+    result.push(item)
+    if (result.length >= limit) break
+  }
+  return result
 }
@@ -1,14 +1,20 @@
 import * as vscode from 'vscode'
 import { ApiClient } from './api'
 import { Profile } from './types' // Import Profile type
+import { ServerProfile, ServerProfileService } from './serverProfiles'
+import { AuthError } from './errors'
 
-const TOKEN_KEY = 'acmoj_personal_access_token'
-const PROFILE_KEY = 'acmoj_user_profile' // Key to store profile in globalState
+const TOKEN_KEY = 'acmoj_personal_access_token' // Followed by `:<username>` for each account
+const PROFILE_KEY = 'acmoj_user_profile' // Key the profile was stored under before accounts existed
+const ACCOUNTS_KEY = 'acmoj_accounts' // Key to store the profiles of the accounts in globalState
+const ACTIVE_ACCOUNT_KEY = 'acmoj_active_account' // Username of the active account
+// All keys are scoped to the active server profile
 
 export class AuthService {
   private _accessToken: string | null = null
   private _isValidated: boolean = false
-  private _profile: Profile | null = null // Store user profile
+  private _profile: Profile | null = null // Profile of the active account
+  private _accounts: Profile[] = [] // Accounts of the active server profile
 
   private _onDidChangeLoginStatus = new vscode.EventEmitter<boolean>()
   public readonly onDidChangeLoginStatus = this._onDidChangeLoginStatus.event
@@ -17,30 +23,58 @@ export class AuthService {
   private _onDidChangeProfile = new vscode.EventEmitter<Profile | null>()
   public readonly onDidChangeProfile = this._onDidChangeProfile.event
 
-  constructor(private context: vscode.ExtensionContext) {
-    // Load stored profile first
-    this._profile = context.globalState.get<Profile | null>(PROFILE_KEY, null)
+  // Fired when the user switches to another account, or to another server
+  // profile, before the profile and login status events
+  private _onDidChangeAccount = new vscode.EventEmitter<Profile | null>()
+  public readonly onDidChangeAccount = this._onDidChangeAccount.event
+
+  private _onDidRemoveAccount = new vscode.EventEmitter<Profile>()
+  public readonly onDidRemoveAccount = this._onDidRemoveAccount.event
+
+  private serverProfileName: string
+  private serverProfileListener: vscode.Disposable
+
+  constructor(
+    private context: vscode.ExtensionContext,
+    private serverProfiles: ServerProfileService,
+  ) {
+    this.serverProfileName = serverProfiles.getActiveProfile().name
 
     this.loadTokenFromStorage().then((loaded) => {
       this.setContext(loaded)
-      if (loaded && !this._profile) {
-        // If token exists but profile missing, try fetching
-        this.validateTokenAndFetchProfile().catch((err) => {
-          console.warn('Initial profile fetch failed:', err)
-          // Might indicate invalid token, handleUnauthorizedError will likely be called by API client
-        })
-      } else if (loaded && this._profile) {
+      if (loaded) {
         // Already have token and profile, fire events
-        this._onDidChangeLoginStatus.fire(true)
         this._onDidChangeProfile.fire(this._profile)
+        this._onDidChangeLoginStatus.fire(true)
       }
     })
+
+    this.serverProfileListener = serverProfiles.onDidChangeActiveProfile(
+      (profile) => this.onServerProfileChanged(profile),
+    )
   }
 
   private setContext(loggedIn: boolean) {
     vscode.commands.executeCommand('setContext', 'acmoj.loggedIn', loggedIn)
   }
 
+  private scopedKey(key: string): string {
+    return this.serverProfiles.scopedKey(key)
+  }
+
+  private tokenKey(username: string): string {
+    return `${this.scopedKey(TOKEN_KEY)}:${username}`
+  }
+
+  /**
+   * Key to store data of the active account under, e.g. its queued
+   * submissions
+   */
+  public accountScopedKey(key: string): string {
+    const scoped = this.scopedKey(key)
+    return this._profile ? `${scoped}:${this._profile.username}` : scoped
+  }
+
   public isLoggedIn(): boolean {
     // Consider a token "logged in" if it exists. Validation status can be checked separately if needed.
     return !!this._accessToken
@@ -55,9 +89,17 @@ export class AuthService {
     return this._profile
   }
 
+  /**
+   * Accounts added on the active server profile
+   */
+  public getAccounts(): readonly Profile[] {
+    return this._accounts
+  }
+
   /**
    * Prompts the user to enter their Personal Access Token and stores it.
-   * Also attempts to validate the token.
+   * Also attempts to validate the token. The account of the token is added
+   * if it is new, and becomes the active one.
    */
   public async setToken(): Promise<boolean> {
     const token = await vscode.window.showInputBox({
@@ -77,62 +119,102 @@ export class AuthService {
   }
 
   /**
-   * Stores the token and attempts to validate it by fetching user profile.
+   * Validates the token by fetching the user profile, then stores it as the
+   * token of that account. The active account is kept if validation fails.
    * @param token The token to store and validate.
    * @returns True if the token was stored and validated successfully, false otherwise.
    */
   private async storeAndValidateToken(token: string): Promise<boolean> {
-    let success = false // Track overall success
-    await vscode.window.withProgress(
+    return vscode.window.withProgress(
       {
         location: vscode.ProgressLocation.Notification,
         title: 'ACMOJ: Saving and validating token...',
         cancellable: false,
       },
-      async (progress) => {
+      async () => {
         try {
-          // Store the token first
-          await this.context.secrets.store(TOKEN_KEY, token)
-          this._accessToken = token
-          this._isValidated = false
-          this._profile = null // Clear old profile
-
-          // Attempt validation and profile fetch
-          const tempApiClient = new ApiClient(this)
-          const profile = await tempApiClient.getUserProfile() // Fetches profile
+          const profile = await this.fetchProfile(token)
 
-          // If validation passes:
+          await this.context.secrets.store(
+            this.tokenKey(profile.username),
+            token,
+          )
+          await this.saveAccount(profile)
+          await this.setActiveAccount(profile, token)
           this._isValidated = true
-          this._profile = profile // Store fetched profile
-          await this.context.globalState.update(PROFILE_KEY, this._profile) // Persist profile
 
-          this.setContext(true)
-          this._onDidChangeLoginStatus.fire(true)
-          this._onDidChangeProfile.fire(this._profile) // Fire profile change event
           vscode.window.showInformationMessage(
             `ACMOJ Token set for ${profile.friendly_name} (${profile.username})!`,
           )
-          success = true // Mark as successful
+          return true
         } catch (error: any) {
           vscode.window.showErrorMessage(
             `Failed to set or validate token: ${error.message}. Please check the token.`,
           )
-          await this.clearTokenInternal() // Clear the invalid token and profile
-          // Error will be caught by the outer catch block
-          throw error
+          return false
         }
       },
     )
-    return success // Return success status
+  }
+
+  /** Fetch the profile of a token without making it the active one */
+  private async fetchProfile(token: string): Promise<Profile> {
+    const apiClient = new ApiClient(this, this.serverProfiles, undefined, token)
+    try {
+      return await apiClient.getUserProfile()
+    } finally {
+      apiClient.dispose()
+    }
+  }
+
+  /**
+   * Make another added account the active one
+   * @returns false if the account is unknown or its token is gone
+   */
+  public async switchAccount(username: string): Promise<boolean> {
+    const account = this._accounts.find((a) => a.username === username)
+    if (!account) return false
+    if (account.username === this._profile?.username) return true
+
+    const token = await this.context.secrets.get(this.tokenKey(username))
+    if (!token) {
+      await this.removeAccount(username)
+      vscode.window.showErrorMessage(
+        `The token of ACMOJ account ${username} is missing. Please add the account again.`,
+      )
+      return false
+    }
+    await this.setActiveAccount(account, token)
+    return true
+  }
+
+  /**
+   * Forget an account and its token. Removing the active account logs out.
+   */
+  public async removeAccount(username: string): Promise<void> {
+    const account = this._accounts.find((a) => a.username === username)
+    if (!account) return
+
+    await this.context.secrets.delete(this.tokenKey(username))
+    this._accounts = this._accounts.filter((a) => a !== account)
+    await this.context.globalState.update(
+      this.scopedKey(ACCOUNTS_KEY),
+      this._accounts,
+    )
+    if (this._profile?.username === username) {
+      await this.setActiveAccount(null, null)
+    } else {
+      this._onDidChangeProfile.fire(this._profile) // For the account count
+    }
+    this._onDidRemoveAccount.fire(account)
   }
 
   /**
-   * Clears the stored Personal Access Token.
+   * Clears the stored Personal Access Token, removing the active account.
    */
   public async clearToken(): Promise<void> {
-    const wasLoggedIn = this.isLoggedIn()
-    await this.clearTokenInternal()
-    if (wasLoggedIn) {
+    if (this._profile) {
+      await this.removeAccount(this._profile.username)
       vscode.window.showInformationMessage(
         'ACMOJ Personal Access Token cleared.',
       )
@@ -141,57 +223,148 @@ export class AuthService {
     }
   }
 
-  /** Internal method to clear token without showing messages */
-  private async clearTokenInternal(): Promise<void> {
-    const wasLoggedIn = this.isLoggedIn()
+  /** Add an account, or update the stored profile of a known one */
+  private async saveAccount(profile: Profile): Promise<void> {
+    const index = this._accounts.findIndex(
+      (a) => a.username === profile.username,
+    )
+    if (index >= 0) {
+      this._accounts[index] = profile
+    } else {
+      this._accounts.push(profile)
+    }
+    await this.context.globalState.update(
+      this.scopedKey(ACCOUNTS_KEY),
+      this._accounts,
+    )
+  }
+
+  private async setActiveAccount(
+    profile: Profile | null,
+    token: string | null,
+  ): Promise<void> {
+    const changed = profile?.username !== this._profile?.username
+    this._accessToken = token
+    this._isValidated = false
+    this._profile = profile
+    await this.context.globalState.update(
+      this.scopedKey(ACTIVE_ACCOUNT_KEY),
+      profile?.username,
+    )
+
+    this.setContext(!!token)
+    if (changed) {
+      this._onDidChangeAccount.fire(profile)
+    }
+    this._onDidChangeProfile.fire(profile)
+    this._onDidChangeLoginStatus.fire(!!token)
+  }
+
+  /** Switch to the accounts stored for another server */
+  private async onServerProfileChanged(profile: ServerProfile) {
+    if (profile.name === this.serverProfileName) return // Same profile, new URL
+    this.serverProfileName = profile.name
+
+    // Nothing may be sent with the old token while loading
+    const previous = this._profile
     this._accessToken = null
     this._isValidated = false
-    this._profile = null // Clear profile
-    await this.context.secrets.delete(TOKEN_KEY)
-    await this.context.globalState.update(PROFILE_KEY, undefined) // Clear persisted profile
-    if (wasLoggedIn) {
-      this.setContext(false)
-      this._onDidChangeLoginStatus.fire(false)
-      this._onDidChangeProfile.fire(null) // Fire profile change event
+    this._profile = null
+    this._accounts = []
+    const loaded = await this.loadTokenFromStorage()
+    this.setContext(loaded)
+    if (previous || loaded) {
+      this._onDidChangeAccount.fire(this._profile)
     }
+    this._onDidChangeProfile.fire(this._profile)
+    this._onDidChangeLoginStatus.fire(loaded)
   }
 
-  /** Loads token from storage on startup */
+  /** Loads the accounts and the token of the active one from storage */
   private async loadTokenFromStorage(): Promise<boolean> {
     try {
-      const storedToken = await this.context.secrets.get(TOKEN_KEY)
-      const storedProfile = this.context.globalState.get<Profile | null>(
-        PROFILE_KEY,
-        null,
-      ) // Load profile too
+      this._accounts = this.context.globalState.get<Profile[]>(
+        this.scopedKey(ACCOUNTS_KEY),
+        [],
+      )
+      await this.migrateLegacyToken()
 
-      if (storedToken) {
+      const username = this.context.globalState.get<string>(
+        this.scopedKey(ACTIVE_ACCOUNT_KEY),
+      )
+      const account = this._accounts.find((a) => a.username === username)
+      const storedToken = account
+        ? await this.context.secrets.get(this.tokenKey(account.username))
+        : undefined
+
+      if (account && storedToken) {
         this._accessToken = storedToken
-        this._profile = storedProfile // Use stored profile
+        this._profile = account
         this._isValidated = false // Assume not validated on load
         return true
       }
     } catch (error) {
       console.error('Failed to load token/profile from storage:', error)
-      await this.clearTokenInternal()
     }
     return false
   }
 
+  /**
+   * Turn the single token stored before accounts existed into an account
+   */
+  private async migrateLegacyToken(): Promise<void> {
+    const legacyKey = this.scopedKey(TOKEN_KEY)
+    const token = await this.context.secrets.get(legacyKey)
+    if (!token) return
+
+    let profile = this.context.globalState.get<Profile | null>(
+      this.scopedKey(PROFILE_KEY),
+      null,
+    )
+    if (!profile) {
+      try {
+        profile = await this.fetchProfile(token)
+      } catch (error) {
+        console.warn('Failed to fetch the profile of the stored token:', error)
+        if (error instanceof AuthError) {
+          await this.context.secrets.delete(legacyKey) // Invalid anyway
+        }
+        return // Try again next time, e.g. once online
+      }
+    }
+
+    await this.context.secrets.store(this.tokenKey(profile.username), token)
+    await this.saveAccount(profile)
+    if (!this.context.globalState.get(this.scopedKey(ACTIVE_ACCOUNT_KEY))) {
+      await this.context.globalState.update(
+        this.scopedKey(ACTIVE_ACCOUNT_KEY),
+        profile.username,
+      )
+    }
+    await this.context.secrets.delete(legacyKey)
+    await this.context.globalState.update(
+      this.scopedKey(PROFILE_KEY),
+      undefined,
+    )
+  }
+
   /** New method to explicitly validate and fetch profile */
   public async validateTokenAndFetchProfile(): Promise<Profile | null> {
-    if (!this._accessToken) return null
+    const token = this._accessToken
+    if (!token) return null
     try {
-      const apiClient = new ApiClient(this) // Use ApiClient
-      const profile = await apiClient.getUserProfile()
+      const profile = await this.fetchProfile(token)
+      if (token !== this._accessToken) return null // Switched meanwhile
       this._isValidated = true
       this._profile = profile
-      await this.context.globalState.update(PROFILE_KEY, this._profile)
+      await this.saveAccount(profile)
       this._onDidChangeProfile.fire(this._profile) // Notify listeners
       return profile
     } catch (error) {
       console.error('Token validation/Profile fetch failed:', error)
-      // Let the ApiClient interceptor handle 401 by calling handleUnauthorizedError
+      if (error instanceof AuthError && error.status === 401) {
+        await this.handleUnauthorizedError(token)
+      }
       return null
     }
   }
@@ -199,26 +372,31 @@ export class AuthService {
   /**
    * Handles API errors, specifically 401 for invalid tokens.
    * To be called by ApiClient's error interceptor.
+   * @param token the token the request was made with; nothing is done if
+   * another account has become active since
    */
-  public async handleUnauthorizedError(): Promise<void> {
-    const currentToken = this._accessToken // Get token before clearing
-    await this.clearTokenInternal() // Clear the invalid token
-    if (currentToken) {
-      // Only show message if a token was actually set
-      vscode.window
-        .showErrorMessage(
-          'ACMOJ: Invalid or expired Personal Access Token. Please set a new token.',
-          'Set Token',
-        )
-        .then((selection) => {
-          if (selection === 'Set Token') {
-            vscode.commands.executeCommand('acmoj.setToken')
-          }
-        })
+  public async handleUnauthorizedError(token?: string): Promise<void> {
+    const profile = this._profile
+    if (!profile || (token !== undefined && token !== this._accessToken)) {
+      return
     }
+    await this.removeAccount(profile.username) // Clear the invalid token
+    vscode.window
+      .showErrorMessage(
+        `ACMOJ: Invalid or expired Personal Access Token for ${profile.username}. Please set a new token.`,
+        'Set Token',
+      )
+      .then((selection) => {
+        if (selection === 'Set Token') {
+          vscode.commands.executeCommand('acmoj.setToken')
+        }
+      })
   }
 
   dispose() {
     this._onDidChangeLoginStatus.dispose()
+    this._onDidChangeAccount.dispose()
+    this._onDidRemoveAccount.dispose()
+    this.serverProfileListener.dispose()
   }
 }
@@ -1,22 +1,212 @@
 import * as vscode from 'vscode'
+import * as crypto from 'crypto'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { NetworkError } from './errors'
 
 interface CacheEntry<T> {
   data: T
+  storedAt: number
   expires: number
   staleUntil?: number // Allow data to be used as a fallback after expiration
 }
 
+const PERSISTENT_CACHE_VERSION = 1 // Bump when the shape of cached API data changes
+const PERSISTENT_INDEX_FILE = 'index.json'
+
+interface PersistentEntry {
+  file: string
+  size: number
+  storedAt: number
+  expires: number
+}
+
+interface PersistentIndex {
+  version: number
+  entries: Record<string, PersistentEntry>
+}
+
+/**
+ * On-disk cache tier, one JSON file per entry plus an index. The least
+ * recently stored entries are evicted once the total size exceeds the limit.
+ */
+class PersistentCache {
+  private index: Promise<Map<string, PersistentEntry>> | undefined
+  private queue: Promise<void> = Promise.resolve() // Serializes disk writes
+
+  constructor(
+    private dir: string,
+    public maxBytes: number, // 0 disables the cache; applies from the next write
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    if (this.maxBytes <= 0) return undefined
+    const entry = (await this.loadIndex()).get(key)
+    if (!entry) return undefined
+    try {
+      const content = await fs.readFile(path.join(this.dir, entry.file), 'utf8')
+      return { data: JSON.parse(content), ...entry }
+    } catch (error) {
+      console.warn(`Failed to read cache entry ${key}:`, error)
+      return undefined
+    }
+  }
+
+  set<T>(key: string, data: T, storedAt: number, expires: number): void {
+    this.enqueue(async () => {
+      const index = await this.loadIndex()
+      const content = JSON.stringify(data)
+      const size = Buffer.byteLength(content)
+      if (size > this.maxBytes) return
+
+      const file = `${crypto.createHash('sha1').update(key).digest('hex')}.json`
+      await fs.mkdir(this.dir, { recursive: true })
+      await fs.writeFile(path.join(this.dir, file), content)
+      index.delete(key) // Re-insert so the entry counts as the newest
+      index.set(key, { file, size, storedAt, expires })
+
+      // Evict the oldest entries until under the size limit
+      let total = 0
+      index.forEach((e) => (total += e.size))
+      for (const [oldKey, oldEntry] of index) {
+        if (total <= this.maxBytes) break
+        index.delete(oldKey)
+        total -= oldEntry.size
+        await fs.rm(path.join(this.dir, oldEntry.file), { force: true })
+      }
+      await this.saveIndex(index)
+    })
+  }
+
+  delete(key: string): void {
+    this.enqueue(async () => {
+      const index = await this.loadIndex()
+      const entry = index.get(key)
+      if (!entry) return
+      index.delete(key)
+      await fs.rm(path.join(this.dir, entry.file), { force: true })
+      await this.saveIndex(index)
+    })
+  }
+
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      ;(await this.loadIndex()).clear()
+      await fs.rm(this.dir, { recursive: true, force: true })
+    })
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error) => {
+      console.warn('Failed to update the persistent cache:', error)
+    })
+    return this.queue
+  }
+
+  private loadIndex(): Promise<Map<string, PersistentEntry>> {
+    if (!this.index) {
+      this.index = (async () => {
+        try {
+          const content = await fs.readFile(
+            path.join(this.dir, PERSISTENT_INDEX_FILE),
+            'utf8',
+          )
+          const index: PersistentIndex = JSON.parse(content)
+          if (index.version === PERSISTENT_CACHE_VERSION) {
+            // Oldest first, so eviction can walk the map in order
+            return new Map(
+              Object.entries(index.entries).sort(
+                ([, a], [, b]) => a.storedAt - b.storedAt,
+              ),
+            )
+          }
+          // Written by another version, the entries may not match our types
+          await fs.rm(this.dir, { recursive: true, force: true })
+        } catch {
+          // No cache yet
+        }
+        return new Map<string, PersistentEntry>()
+      })()
+    }
+    return this.index
+  }
+
+  private async saveIndex(index: Map<string, PersistentEntry>) {
+    const content: PersistentIndex = {
+      version: PERSISTENT_CACHE_VERSION,
+      entries: Object.fromEntries(index),
+    }
+    await fs.mkdir(this.dir, { recursive: true })
+    await fs.writeFile(
+      path.join(this.dir, PERSISTENT_INDEX_FILE),
+      JSON.stringify(content),
+    )
+  }
+}
+
 export class CacheService {
   private cache: Map<string, CacheEntry<any>> = new Map()
   private defaultTTL: number
   private stalePeriod: number // Stale period after expiration (milliseconds)
+  private persistentCache: PersistentCache | undefined
+  private maxPersistentBytes: number
+  private staleData: WeakMap<object, number> = new WeakMap() // Stale results -> time they were stored
+  private offlineNoticeShown: boolean = false
+  private generation: number = 0 // Incremented by setStorageDir
+  private cleanupTimer: NodeJS.Timeout
 
-  constructor(defaultTTLInMinutes: number = 5) {
+  /**
+   * @param storageDir directory for the on-disk tier, which is disabled if
+   * not given
+   * @param isOnline whether the server is reachable; while it is not, stale
+   * data is returned without trying to fetch
+   */
+  constructor(
+    defaultTTLInMinutes: number = 5,
+    storageDir?: string,
+    maxPersistentBytes: number = 50 * 1024 * 1024,
+    private isOnline: () => boolean = () => true,
+  ) {
     this.defaultTTL = defaultTTLInMinutes * 60 * 1000
     this.stalePeriod = 30 * 60 * 1000 // Default 30 minutes of stale data availability as fallback
+    this.maxPersistentBytes = maxPersistentBytes
+    if (storageDir) {
+      this.persistentCache = new PersistentCache(storageDir, maxPersistentBytes)
+    }
 
     // Clean expired entries every minute
-    setInterval(() => this.cleanExpiredEntries(), 60000)
+    this.cleanupTimer = setInterval(() => this.cleanExpiredEntries(), 60000)
+  }
+
+  dispose(): void {
+    clearInterval(this.cleanupTimer)
+  }
+
+  setDefaultTTL(ttlMinutes: number): void {
+    this.defaultTTL = ttlMinutes * 60 * 1000
+  }
+
+  /**
+   * Set the size limit of the on-disk tier, 0 to disable it
+   */
+  setMaxPersistentBytes(maxBytes: number): void {
+    this.maxPersistentBytes = maxBytes
+    if (this.persistentCache) {
+      this.persistentCache.maxBytes = maxBytes
+    }
+  }
+
+  /**
+   * Keep the on-disk tier in another directory, e.g. for another server.
+   * The in-memory cache is cleared; the old directory is left as it is.
+   */
+  setStorageDir(storageDir: string | undefined): void {
+    this.generation++ // Results of fetches started before are not stored
+    this.cache.clear()
+    this.offlineNoticeShown = false
+    this.persistentCache = storageDir
+      ? new PersistentCache(storageDir, this.maxPersistentBytes)
+      : undefined
   }
 
   /**
@@ -43,9 +233,11 @@ export class CacheService {
    */
   set<T>(key: string, data: T, ttlMinutes?: number): void {
     const ttl = ttlMinutes ? ttlMinutes * 60 * 1000 : this.defaultTTL
-    const expires = Date.now() + ttl
+    const storedAt = Date.now()
+    const expires = storedAt + ttl
     this.cache.set(key, {
       data,
+      storedAt,
       expires,
       staleUntil: expires + this.stalePeriod,
     })
@@ -56,15 +248,34 @@ export class CacheService {
    */
   delete(key: string): void {
     this.cache.delete(key)
+    this.persistentCache?.delete(key) // So outdated data is not loaded again
   }
 
   /**
-   * Clear the entire cache
+   * Clear the entire in-memory cache
    */
   clear(): void {
     this.cache.clear()
   }
 
+  /**
+   * Clear the on-disk cache as well
+   */
+  async clearPersistent(): Promise<void> {
+    this.cache.clear()
+    await this.persistentCache?.clear()
+  }
+
+  /**
+   * If a result returned by `getOrFetch` is cached data served because the
+   * server could not be reached, get the time it was stored
+   */
+  getStaleSince(data: unknown): number | undefined {
+    return typeof data === 'object' && data !== null
+      ? this.staleData.get(data)
+      : undefined
+  }
+
   /**
    * Clean expired cache entries
    */
@@ -80,47 +291,103 @@ export class CacheService {
 
   /**
    * Get from cache or fetch from API
+   * @param persistent also keep the data on disk, so it survives reloads and
+   * can be browsed offline
    */
   async getOrFetch<T>(
     key: string,
     fetchFn: () => Promise<T>,
     ttlMinutes?: number,
+    persistent: boolean = false,
   ): Promise<T> {
+    const generation = this.generation
+
     // First try to get from cache
     const cached = this.get<T>(key)
     if (cached !== undefined) {
       return cached
     }
 
+    // Then from disk, e.g. after a window reload
+    const persisted =
+      persistent && !this.cache.has(key)
+        ? await this.persistentCache?.get<T>(key)
+        : undefined
+    if (generation !== this.generation) {
+      // Read from the previous storage, start over with the current one
+      return this.getOrFetch(key, fetchFn, ttlMinutes, persistent)
+    }
+    if (persisted && Date.now() <= persisted.expires) {
+      this.cache.set(key, {
+        ...persisted,
+        staleUntil: persisted.expires + this.stalePeriod,
+      })
+      return persisted.data
+    }
+
+    // Offline: don't wait for the fetch and its retries to fail
+    if (!this.isOnline()) {
+      const staleEntry = this.useStaleEntry<T>(key, persisted)
+      if (staleEntry) return staleEntry.data
+    }
+
     try {
       // Fetch new data from API
       const data = await fetchFn()
+      if (generation !== this.generation) {
+        return data // Belongs to the previous storage, e.g. another account
+      }
       this.set(key, data, ttlMinutes)
+      if (persistent) {
+        const { storedAt, expires } = this.cache.get(key)!
+        this.persistentCache?.set(key, data, storedAt, expires)
+      }
+      this.offlineNoticeShown = false
       return data
     } catch (error) {
+      if (generation !== this.generation) throw error
+      // Only when offline: a 404 or 403 means the data is gone or hidden now
+      if (!(error instanceof NetworkError)) throw error
       // Network error but expired data exists, try using stale data
-      const staleEntry = this.getStaleEntry<T>(key)
-      if (staleEntry) {
-        vscode.window.showInformationMessage(
-          'Using cached data due to unstable network connection.',
-        )
-        return staleEntry
-      }
+      const staleEntry = this.useStaleEntry<T>(key, persisted)
+      if (staleEntry) return staleEntry.data
       throw error
     }
   }
 
+  /**
+   * Expired data to show while offline, from memory or else from disk.
+   * It is marked as stale and the user is told once that cached data is used.
+   */
+  private useStaleEntry<T>(
+    key: string,
+    persisted: CacheEntry<T> | undefined,
+  ): CacheEntry<T> | undefined {
+    const staleEntry = this.getStaleEntry<T>(key) ?? persisted
+    if (!staleEntry) return undefined
+    if (typeof staleEntry.data === 'object' && staleEntry.data !== null) {
+      this.staleData.set(staleEntry.data, staleEntry.storedAt)
+    }
+    if (!this.offlineNoticeShown) {
+      this.offlineNoticeShown = true
+      vscode.window.showInformationMessage(
+        'Using cached data due to unstable network connection.',
+      )
+    }
+    return staleEntry
+  }
+
   /**
    * Get an entry that is expired but still within stale period
    */
-  private getStaleEntry<T>(key: string): T | undefined {
+  private getStaleEntry<T>(key: string): CacheEntry<T> | undefined {
     const entry = this.cache.get(key)
     if (!entry) return undefined
 
     const now = Date.now()
     // Expired but within stale period
     if (now > entry.expires && entry.staleUntil && now <= entry.staleUntil) {
-      return entry.data as T
+      return entry
     }
 
     return undefined
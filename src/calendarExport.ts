@@ -0,0 +1,130 @@
+import { Problemset } from './types'
+
+const MAX_LINE_OCTETS = 75 // Longer content lines must be folded (RFC 5545)
+
+/**
+ * iCalendar file with an event per problemset, from its start to its end,
+ * and an event for the late submission period if there is one
+ * @param host host name of the server, to make the event UIDs unique
+ */
+export function buildCalendar(problemsets: Problemset[], host: string): string {
+  const stamp = formatDate(new Date())
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//vscode-acmoj//Problemset Deadlines//EN',
+    'CALSCALE:GREGORIAN',
+    'X-WR-CALNAME:ACMOJ Deadlines',
+  ]
+
+  for (const ps of problemsets) {
+    const start = new Date(ps.start_time)
+    const end = new Date(ps.end_time)
+    if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+      console.warn(`Skipping problemset ${ps.id} with invalid dates`)
+      continue
+    }
+    const late = ps.late_submission_deadline
+      ? new Date(ps.late_submission_deadline)
+      : undefined
+    const hasLatePeriod = !!late && late > end
+
+    const details = [
+      ps.description?.trim(),
+      hasLatePeriod ? `Late submission until ${late.toLocaleString()}` : '',
+      ps.html_url,
+    ]
+      .filter((d) => d)
+      .join('\n\n')
+
+    lines.push(
+      ...buildEvent({
+        uid: `problemset-${ps.id}@${host}`,
+        stamp,
+        start,
+        end,
+        summary: `${ps.name} (${ps.type})`,
+        description: details,
+        url: ps.html_url,
+      }),
+    )
+    if (hasLatePeriod) {
+      lines.push(
+        ...buildEvent({
+          uid: `problemset-${ps.id}-late@${host}`,
+          stamp,
+          start: end,
+          end: late,
+          summary: `${ps.name} (late submission)`,
+          description: details,
+          url: ps.html_url,
+        }),
+      )
+    }
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+interface CalendarEvent {
+  uid: string
+  stamp: string
+  start: Date
+  end: Date
+  summary: string
+  description: string
+  url: string
+}
+
+function buildEvent(event: CalendarEvent): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${event.stamp}`,
+    `DTSTART:${formatDate(event.start)}`,
+    `DTEND:${formatDate(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.url ? [`URL:${event.url}`] : []),
+    'END:VEVENT',
+  ]
+}
+
+// UTC date-time, e.g. 20250301T120000Z
+function formatDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Split a content line into lines of at most 75 octets, without splitting
+// multi-byte characters. Continuation lines start with a space.
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const size = Buffer.byteLength(char)
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + size > limit) {
+      parts.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += size
+  }
+  parts.push(current)
+  return parts.join('\r\n ')
+}
@@ -0,0 +1,191 @@
+import * as vscode from 'vscode'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import {
+  CheckResult,
+  OutputChecker,
+  RunResult,
+  compareOutput,
+  runProcess,
+} from './localRunner'
+
+export type CheckerMode = 'exact' | 'tokens' | 'float' | 'custom'
+
+export interface CheckerConfig {
+  mode: CheckerMode
+  absoluteEpsilon?: number // float mode
+  relativeEpsilon?: number // float mode
+  command?: string // custom mode: checker executable
+}
+
+const DEFAULT_EPSILON = 1e-6
+
+// testlib exit codes: 0 accepted, 1 wrong answer, 2 presentation error,
+// 3 the checker itself failed
+const TESTLIB_REJECT_CODES = [1, 2]
+
+/**
+ * Get the checker configured for a problem in `acmoj.checkers`, falling back
+ * to `acmoj.defaultChecker`.
+ */
+export function getCheckerConfig(problemId: number): CheckerConfig {
+  const config = vscode.workspace.getConfiguration('acmoj')
+  const perProblem = config.get<Record<string, CheckerConfig>>('checkers', {})
+  const problemConfig = perProblem[`${problemId}`]
+  if (problemConfig?.mode) {
+    return problemConfig
+  }
+  return { mode: config.get<CheckerMode>('defaultChecker', 'exact') }
+}
+
+/**
+ * Create the output checker for a configuration:
+ * - exact: lines must match, ignoring trailing whitespace and blank lines
+ * - tokens: whitespace-separated tokens must match
+ * - float: like tokens, but numbers may differ by an absolute or relative
+ *   epsilon
+ * - custom: a testlib-style executable run as `checker input output answer`,
+ *   which accepts the output by exiting with code 0 and rejects it with 1 or
+ *   2. Any other exit code is reported as a checker error.
+ */
+export function createChecker(config: CheckerConfig): OutputChecker {
+  switch (config.mode) {
+    case 'tokens':
+      return async (_input, expected, actual) =>
+        compareTokens(expected, actual, (a, b) => a === b)
+    case 'float': {
+      const absEps = config.absoluteEpsilon ?? DEFAULT_EPSILON
+      const relEps = config.relativeEpsilon ?? DEFAULT_EPSILON
+      return async (_input, expected, actual) =>
+        compareTokens(expected, actual, (a, b) => {
+          if (a === b) return true
+          const x = Number(a)
+          const y = Number(b)
+          if (isNaN(x) || isNaN(y)) return false
+          const diff = Math.abs(x - y)
+          return diff <= absEps || diff <= relEps * Math.abs(x)
+        })
+    }
+    case 'custom':
+      return (input, expected, actual) =>
+        runCustomChecker(config, input, expected, actual)
+    case 'exact':
+    default:
+      return async (_input, expected, actual) =>
+        compareOutput(expected, actual)
+          ? { passed: true }
+          : { passed: false, message: 'Output differs from the answer.' }
+  }
+}
+
+function compareTokens(
+  expected: string,
+  actual: string,
+  equals: (expected: string, actual: string) => boolean,
+): { passed: boolean; message?: string } {
+  const expectedTokens = expected.split(/\s+/).filter((t) => t !== '')
+  const actualTokens = actual.split(/\s+/).filter((t) => t !== '')
+  const count = Math.max(expectedTokens.length, actualTokens.length)
+  for (let i = 0; i < count; i++) {
+    if (i >= expectedTokens.length || i >= actualTokens.length) {
+      return {
+        passed: false,
+        message: `Expected ${expectedTokens.length} tokens, found ${actualTokens.length}.`,
+      }
+    }
+    if (!equals(expectedTokens[i], actualTokens[i])) {
+      return {
+        passed: false,
+        message: `Token ${i + 1} differs: expected '${expectedTokens[i]}', found '${actualTokens[i]}'.`,
+      }
+    }
+  }
+  return { passed: true }
+}
+
+async function runCustomChecker(
+  config: CheckerConfig,
+  input: string,
+  expected: string,
+  actual: string,
+): Promise<CheckResult> {
+  if (!config.command) {
+    return {
+      passed: false,
+      message: 'No command configured for the custom checker.',
+      checkerError: true,
+    }
+  }
+  const command = resolveCheckerCommand(config.command)
+
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'acmoj-check-'))
+  try {
+    const inputFile = path.join(dir, 'input.txt')
+    const outputFile = path.join(dir, 'output.txt')
+    const answerFile = path.join(dir, 'answer.txt')
+    await fs.writeFile(inputFile, input)
+    await fs.writeFile(outputFile, actual)
+    await fs.writeFile(answerFile, expected)
+
+    let result: RunResult
+    try {
+      result = await runProcess(
+        command,
+        [inputFile, outputFile, answerFile],
+        '',
+        30000,
+        dir,
+      )
+    } catch (error: any) {
+      // e.g. the command does not exist
+      return { passed: false, message: error.message, checkerError: true }
+    }
+    // testlib reports its verdict on stderr
+    const message = (result.stderr || result.stdout).trim() || undefined
+    if (result.timedOut) {
+      return {
+        passed: false,
+        message: 'Checker timed out.',
+        checkerError: true,
+      }
+    }
+    if (result.outputLimitExceeded) {
+      return {
+        passed: false,
+        message: 'Checker exceeded the output limit.',
+        checkerError: true,
+      }
+    }
+    if (result.exitCode === 0) {
+      return { passed: true, message }
+    }
+    if (
+      result.exitCode !== null &&
+      TESTLIB_REJECT_CODES.includes(result.exitCode)
+    ) {
+      return { passed: false, message }
+    }
+    return {
+      passed: false,
+      message: `Checker failed (${result.signal || `exit code ${result.exitCode}`})${message ? `: ${message}` : ''}`,
+      checkerError: true,
+    }
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Resolve `${workspaceFolder}` and paths relative to the workspace folder
+ */
+function resolveCheckerCommand(command: string): string {
+  const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath
+  const resolved = folder
+    ? command.replace(/\$\{workspaceFolder\}/g, folder)
+    : command
+  if (folder && !path.isAbsolute(resolved) && /[\\/]/.test(resolved)) {
+    return path.join(folder, resolved)
+  }
+  return resolved
+}
@@ -1,17 +1,58 @@
 import * as vscode from 'vscode'
 import { ApiClient } from './api'
 import { AuthService } from './auth'
-import { ProblemsetProvider } from './views/problemsetProvider'
-import { SubmissionProvider } from './views/submissionProvider'
+import {
+  ProblemsetProvider,
+  ProblemsetTreeItem,
+} from './views/problemsetProvider'
+import { CourseProvider, isCurrentCourse } from './views/courseProvider'
+import { ProblemProvider } from './views/problemProvider'
+import { ProblemBrief, Problemset } from './types'
+import { NetworkError } from './errors'
+import {
+  QueuedSubmissionTreeItem,
+  SubmissionProvider,
+} from './views/submissionProvider'
 import { showProblemDetails, showSubmissionDetails } from './webviews'
 import { exec } from 'child_process' // Node.js module to run shell commands
 import { promisify } from 'util' // To use async/await with exec
 import * as path from 'path' // Node.js module for path manipulation
 import { get } from 'axios'
 import { SubmissionMonitorService } from './submissionMonitor'
+import { SubmissionQueueService } from './submissionQueue'
+import { ServerProfileService } from './serverProfiles'
+import {
+  CompilationError,
+  CompiledSolution,
+  compileSolution,
+  formatOutputDiff,
+  getLocalLanguage,
+  getLocalLanguageForFile,
+  getProblemExamples,
+  getProblemLimits,
+  reportResults,
+  runTestCases,
+} from './localRunner'
+import { runStressTest } from './stressTester'
+import { createChecker, getCheckerConfig } from './checker'
+import { SubmissionSource } from './compileDiagnostics'
+import { inferProblemId } from './problemHeader'
+import {
+  deleteCustomTest,
+  getNextCustomTestName,
+  loadCustomTests,
+  openCustomTest,
+  saveCustomTest,
+} from './customTests'
+import { buildCalendar } from './calendarExport'
+import { getKnownStatuses, getStatusInfo } from './submissionStatus'
 
 const execAsync = promisify(exec) // used in getGitRemoteFetchUrls
 
+const SEARCH_RESULT_LIMIT = 50 // Problems listed by the search quick pick
+const SEARCH_DEBOUNCE = 300 // Milliseconds to wait for more typing before searching
+const DEFAULT_LANGUAGES = ['cpp', 'python', 'java', 'c', 'git', 'verilog'] // When a problem's accepted languages are unknown
+
 export function registerCommands(
   context: vscode.ExtensionContext,
   authService: AuthService,
@@ -19,7 +60,52 @@ export function registerCommands(
   problemsetProvider: ProblemsetProvider,
   submissionProvider: SubmissionProvider,
   submissionMonitor: SubmissionMonitorService,
+  submissionQueue: SubmissionQueueService,
+  courseProvider: CourseProvider,
+  serverProfiles: ServerProfileService,
+  problemProvider: ProblemProvider,
 ) {
+  const localRunOutput = vscode.window.createOutputChannel('ACMOJ Local Run')
+  context.subscriptions.push(localRunOutput)
+
+  // Join or quit a problemset after confirmation, then refresh the trees
+  const changeMembership = async (
+    problemset: Problemset,
+    action: 'join' | 'quit',
+  ) => {
+    const verb = action === 'join' ? 'Join' : 'Quit'
+    const confirmation = await vscode.window.showWarningMessage(
+      action === 'join'
+        ? `Join ${problemset.name}?`
+        : `Are you sure you want to quit ${problemset.name}?`,
+      { modal: true },
+      verb,
+    )
+    if (confirmation !== verb) return
+
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `ACMOJ: ${action === 'join' ? 'Joining' : 'Quitting'} ${problemset.name}...`,
+        },
+        () =>
+          action === 'join'
+            ? apiClient.joinProblemset(problemset)
+            : apiClient.quitProblemset(problemset),
+      )
+      vscode.window.showInformationMessage(
+        `${action === 'join' ? 'Joined' : 'Quit'} ${problemset.name}.`,
+      )
+      problemsetProvider.refresh()
+      courseProvider.refresh()
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to ${action} ${problemset.name}: ${error.message}`,
+      )
+    }
+  }
+
   context.subscriptions.push(
     vscode.commands.registerCommand('acmoj.setToken', async () => {
       const success = await authService.setToken()
@@ -31,11 +117,124 @@ export function registerCommands(
 
     vscode.commands.registerCommand('acmoj.clearToken', async () => {
       await authService.clearToken()
-      apiClient.clearCache()
+      await apiClient.clearCache(true)
       problemsetProvider.refresh()
       submissionProvider.refresh()
     }),
 
+    vscode.commands.registerCommand('acmoj.addAccount', async () => {
+      const success = await authService.setToken()
+      if (success) {
+        problemsetProvider.refresh()
+        submissionProvider.refresh()
+      }
+    }),
+
+    vscode.commands.registerCommand('acmoj.switchAccount', async () => {
+      const active = authService.getProfile()
+      const addItem: vscode.QuickPickItem = { label: '$(add) Add Account...' }
+      const removeItem: vscode.QuickPickItem = {
+        label: '$(trash) Remove Account...',
+      }
+      const accounts = authService.getAccounts()
+      const items: (vscode.QuickPickItem & { username?: string })[] =
+        accounts.map((account) => ({
+          label: account.friendly_name || account.username,
+          description: account.username,
+          detail: account.username === active?.username ? 'Active' : undefined,
+          iconPath: new vscode.ThemeIcon(
+            account.username === active?.username ? 'check' : 'account',
+          ),
+          username: account.username,
+        }))
+      items.push(
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        addItem,
+      )
+      if (accounts.length > 0) items.push(removeItem)
+
+      const server = serverProfiles.getActiveProfile()
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `ACMOJ accounts on ${server.name} (${server.baseUrl})`,
+      })
+      if (!selected) return
+      if (selected === addItem) {
+        vscode.commands.executeCommand('acmoj.addAccount')
+      } else if (selected === removeItem) {
+        vscode.commands.executeCommand('acmoj.removeAccount')
+      } else if (selected.username && selected.username !== active?.username) {
+        if (await authService.switchAccount(selected.username)) {
+          vscode.window.showInformationMessage(
+            `Switched to ACMOJ account ${selected.username}.`,
+          )
+        }
+      }
+    }),
+
+    vscode.commands.registerCommand('acmoj.removeAccount', async () => {
+      const active = authService.getProfile()
+      const selected = await vscode.window.showQuickPick(
+        authService.getAccounts().map((account) => ({
+          label: account.friendly_name || account.username,
+          description: account.username,
+          detail: account.username === active?.username ? 'Active' : undefined,
+          username: account.username,
+        })),
+        { placeHolder: 'Select the ACMOJ account to remove' },
+      )
+      if (!selected) return
+
+      const confirmation = await vscode.window.showWarningMessage(
+        `Remove ACMOJ account ${selected.username}? Its token and cached data are deleted from VS Code.`,
+        { modal: true },
+        'Remove',
+      )
+      if (confirmation !== 'Remove') return
+      await authService.removeAccount(selected.username)
+      vscode.window.showInformationMessage(
+        `ACMOJ account ${selected.username} removed.`,
+      )
+    }),
+
+    vscode.commands.registerCommand('acmoj.switchServerProfile', async () => {
+      const active = serverProfiles.getActiveProfile()
+      const editItem: vscode.QuickPickItem = {
+        label: '$(gear) Edit Server Profiles...',
+      }
+      const items: vscode.QuickPickItem[] = serverProfiles
+        .getProfiles()
+        .map((profile) => ({
+          label: profile.name,
+          description: profile.baseUrl,
+          detail: profile.name === active.name ? 'Active' : undefined,
+          iconPath: new vscode.ThemeIcon(
+            profile.name === active.name ? 'check' : 'server-environment',
+          ),
+        }))
+      items.push(
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        editItem,
+      )
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Current server: ${active.name} (${active.baseUrl})`,
+      })
+      if (!selected) return
+      if (selected === editItem) {
+        vscode.commands.executeCommand(
+          'workbench.action.openSettings',
+          'acmoj.serverProfiles',
+        )
+        return
+      }
+      if (selected.label === active.name) return
+
+      await serverProfiles.switchTo(selected.label)
+      vscode.window.showInformationMessage(
+        `Switched to ACMOJ server "${selected.label}".`,
+      )
+    }),
+
     vscode.commands.registerCommand('acmoj.showMyProfile', () => {
       const profile = authService.getProfile()
       if (profile) {
@@ -84,6 +283,327 @@ export function registerCommands(
       problemsetProvider.refresh() // Refresh the correct provider
     }),
 
+    vscode.commands.registerCommand('acmoj.refreshCourses', () => {
+      if (!authService.isLoggedIn()) {
+        vscode.window.showWarningMessage('Please login to ACMOJ first.')
+        return
+      }
+      courseProvider.refresh()
+    }),
+
+    vscode.commands.registerCommand(
+      'acmoj.joinProblemset',
+      async (item?: ProblemsetTreeItem) => {
+        if (item) await changeMembership(item.problemset, 'join')
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'acmoj.quitProblemset',
+      async (item?: ProblemsetTreeItem) => {
+        if (item) await changeMembership(item.problemset, 'quit')
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'acmoj.browseJoinableProblemsets',
+      async () => {
+        if (!authService.isLoggedIn()) {
+          vscode.window.showWarningMessage('Please login to ACMOJ first.')
+          return
+        }
+
+        type ProblemsetPickItem = vscode.QuickPickItem & {
+          problemset?: Problemset
+        }
+        const quickPick = vscode.window.createQuickPick<ProblemsetPickItem>()
+        quickPick.placeholder = 'Select a problemset to join'
+        quickPick.matchOnDescription = true
+        quickPick.matchOnDetail = true
+        quickPick.busy = true
+        quickPick.show()
+
+        // Fill the list in course by course while the user can already pick
+        const cancellation = new vscode.CancellationTokenSource()
+        quickPick.onDidHide(() => cancellation.cancel())
+        const loading = (async () => {
+          const { problemsets } = await apiClient.getUserProblemsets()
+          const joinedIds = new Set(problemsets.map((ps) => ps.id))
+          const now = Date.now()
+          for await (const course of apiClient.iterateCourses(
+            undefined,
+            cancellation.token,
+          )) {
+            if (!isCurrentCourse(course)) continue
+            const details = await apiClient.getCourseDetails(course.id)
+            if (cancellation.token.isCancellationRequested) return
+            const joinable = (details.problemsets ?? []).filter(
+              (ps) =>
+                ps.join_url &&
+                !joinedIds.has(ps.id) &&
+                new Date(ps.end_time).getTime() > now,
+            )
+            if (joinable.length === 0) continue
+            quickPick.items = [
+              ...quickPick.items,
+              { label: course.name, kind: vscode.QuickPickItemKind.Separator },
+              ...joinable.map((ps) => ({
+                label: ps.name,
+                description: `(${ps.type})`,
+                detail: `${new Date(ps.start_time).toLocaleString()} - ${new Date(ps.end_time).toLocaleString()}`,
+                problemset: ps,
+              })),
+            ]
+          }
+        })()
+          .catch((error: any) => {
+            vscode.window.showErrorMessage(
+              `Failed to load problemsets: ${error.message}`,
+            )
+          })
+          .finally(() => {
+            quickPick.busy = false
+            if (quickPick.items.length === 0) {
+              quickPick.placeholder = 'No joinable problemsets found'
+            }
+          })
+
+        const selected = await new Promise<ProblemsetPickItem | undefined>(
+          (resolve) => {
+            quickPick.onDidAccept(() => {
+              resolve(quickPick.selectedItems[0])
+              quickPick.hide()
+            })
+            quickPick.onDidHide(() => resolve(undefined))
+          },
+        )
+        quickPick.dispose()
+        await loading
+        cancellation.dispose()
+
+        if (selected?.problemset) {
+          await changeMembership(selected.problemset, 'join')
+        }
+      },
+    ),
+
+    vscode.commands.registerCommand('acmoj.exportDeadlines', async () => {
+      if (!authService.isLoggedIn()) {
+        vscode.window.showWarningMessage('Please login to ACMOJ first.')
+        return
+      }
+
+      let problemsets: Problemset[]
+      try {
+        problemsets = (await apiClient.getUserProblemsets()).problemsets
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Failed to load problemsets: ${error.message}`,
+        )
+        return
+      }
+      if (problemsets.length === 0) {
+        vscode.window.showInformationMessage(
+          'You have not joined any problemsets.',
+        )
+        return
+      }
+
+      const folder = vscode.workspace.workspaceFolders?.[0]?.uri
+      const uri = await vscode.window.showSaveDialog({
+        defaultUri: folder
+          ? vscode.Uri.joinPath(folder, 'acmoj-deadlines.ics')
+          : undefined,
+        filters: { iCalendar: ['ics'] },
+        saveLabel: 'Export',
+        title: 'Export Problemset Deadlines',
+      })
+      if (!uri) return
+
+      try {
+        const host = new URL(serverProfiles.getActiveProfile().baseUrl).host
+        await vscode.workspace.fs.writeFile(
+          uri,
+          Buffer.from(buildCalendar(problemsets, host), 'utf8'),
+        )
+        vscode.window.showInformationMessage(
+          `Exported ${problemsets.length} problemset(s) to ${path.basename(uri.fsPath)}.`,
+        )
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Failed to export deadlines: ${error.message}`,
+        )
+      }
+    }),
+
+    vscode.commands.registerCommand('acmoj.refreshProblems', () => {
+      if (!authService.isLoggedIn()) {
+        vscode.window.showWarningMessage('Please login to ACMOJ first.')
+        return
+      }
+      problemProvider.refresh()
+    }),
+
+    vscode.commands.registerCommand('acmoj.loadMoreProblems', async () => {
+      try {
+        await problemProvider.loadMore()
+      } catch (error: any) {
+        vscode.window.showErrorMessage(
+          `Failed to load more problems: ${error.message}`,
+        )
+      }
+    }),
+
+    vscode.commands.registerCommand('acmoj.searchProblems', async () => {
+      if (!authService.isLoggedIn()) {
+        vscode.window.showWarningMessage('Please login to ACMOJ first.')
+        return
+      }
+
+      type ProblemPickItem = vscode.QuickPickItem & {
+        problemId?: number
+        showInView?: boolean
+      }
+      const quickPick = vscode.window.createQuickPick<ProblemPickItem>()
+      quickPick.placeholder = 'Search problems by keyword or ID'
+      quickPick.value = problemProvider.getKeyword() ?? ''
+
+      // Search as the user types, dropping the results of older keywords
+      let cancellation: vscode.CancellationTokenSource | undefined
+      let timer: NodeJS.Timeout | undefined
+      const search = (keyword: string) => {
+        cancellation?.cancel()
+        clearTimeout(timer)
+        const items: ProblemPickItem[] = []
+        if (/^\d+$/.test(keyword)) {
+          items.push({
+            label: `$(go-to-file) Open Problem ${keyword}`,
+            problemId: Number(keyword),
+            alwaysShow: true,
+          })
+        }
+        if (keyword) {
+          items.push({
+            label: `$(list-filter) Show all results in All Problems`,
+            description: `"${keyword}"`,
+            showInView: true,
+            alwaysShow: true,
+          })
+        }
+        quickPick.items = items
+        if (!keyword) {
+          quickPick.busy = false
+          return
+        }
+
+        quickPick.busy = true
+        const source = new vscode.CancellationTokenSource()
+        cancellation = source
+        timer = setTimeout(async () => {
+          try {
+            const problems = await apiClient.getAllProblems(
+              keyword,
+              undefined,
+              SEARCH_RESULT_LIMIT,
+              source.token,
+            )
+            if (source.token.isCancellationRequested) return
+            quickPick.items = [
+              ...items,
+              { label: 'Problems', kind: vscode.QuickPickItemKind.Separator },
+              ...problems.map((p) => ({
+                label: `${p.id}: ${p.title || '(Title Unavailable)'}`,
+                problemId: p.id,
+                alwaysShow: true, // Matched by the server, maybe not by label
+              })),
+            ]
+          } catch (error: any) {
+            if (source.token.isCancellationRequested) return
+            quickPick.items = [
+              ...items,
+              { label: `$(error) ${error.message}`, alwaysShow: true },
+            ]
+          } finally {
+            if (!source.token.isCancellationRequested) quickPick.busy = false
+          }
+        }, SEARCH_DEBOUNCE)
+      }
+      quickPick.onDidChangeValue((value) => search(value.trim()))
+      search(quickPick.value.trim())
+      quickPick.show()
+
+      const selected = await new Promise<ProblemPickItem | undefined>(
+        (resolve) => {
+          quickPick.onDidAccept(() => {
+            resolve(quickPick.selectedItems[0])
+            quickPick.hide()
+          })
+          quickPick.onDidHide(() => resolve(undefined))
+        },
+      )
+      const keyword = quickPick.value.trim()
+      cancellation?.cancel()
+      clearTimeout(timer)
+      quickPick.dispose()
+
+      if (selected?.showInView) {
+        problemProvider.setKeyword(keyword)
+        vscode.commands.executeCommand('acmojProblems.focus')
+      } else if (selected?.problemId !== undefined) {
+        vscode.commands.executeCommand('acmoj.viewProblem', selected.problemId)
+      }
+    }),
+
+    vscode.commands.registerCommand(
+      'acmoj.filterProblemsByProblemset',
+      async () => {
+        if (!authService.isLoggedIn()) {
+          vscode.window.showWarningMessage('Please login to ACMOJ first.')
+          return
+        }
+        let problemsets: Problemset[]
+        try {
+          problemsets = (await apiClient.getUserProblemsets()).problemsets
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Failed to load problemsets: ${error.message}`,
+          )
+          return
+        }
+
+        const current = problemProvider.getProblemset()
+        const selected = await vscode.window.showQuickPick(
+          [
+            {
+              label: 'All Problemsets',
+              description: current ? undefined : 'current',
+              problemset: undefined,
+            },
+            ...problemsets.map((ps) => ({
+              label: ps.name,
+              description: ps.id === current?.id ? 'current' : `(${ps.type})`,
+              detail: ps.course?.name,
+              problemset: ps,
+            })),
+          ],
+          {
+            placeHolder: 'Show the problems of a problemset',
+            matchOnDetail: true,
+          },
+        )
+        if (!selected) return
+        problemProvider.setProblemset(
+          selected.problemset
+            ? { id: selected.problemset.id, name: selected.problemset.name }
+            : undefined,
+        )
+      },
+    ),
+
+    vscode.commands.registerCommand('acmoj.clearProblemFilter', () => {
+      problemProvider.clearFilter()
+    }),
+
     vscode.commands.registerCommand('acmoj.refreshSubmissions', () => {
       if (!authService.isLoggedIn()) {
         vscode.window.showWarningMessage('Please login to ACMOJ first.')
@@ -92,6 +612,150 @@ export function registerCommands(
       submissionProvider.refresh()
     }),
 
+    vscode.commands.registerCommand('acmoj.filterSubmissions', async () => {
+      if (!authService.isLoggedIn()) {
+        vscode.window.showWarningMessage('Please login to ACMOJ first.')
+        return
+      }
+
+      const filter = submissionProvider.getFilter()
+      type FilterPickItem = vscode.QuickPickItem & {
+        field: 'problemId' | 'status' | 'lang' | 'clear'
+      }
+      const items: FilterPickItem[] = [
+        {
+          label: '$(symbol-number) Problem',
+          description: filter.problemId ? `${filter.problemId}` : 'Any',
+          field: 'problemId',
+        },
+        {
+          label: '$(pass) Verdict',
+          description: filter.status
+            ? getStatusInfo(filter.status).label
+            : 'Any',
+          field: 'status',
+        },
+        {
+          label: '$(code) Language',
+          description: filter.lang ?? 'Any',
+          field: 'lang',
+        },
+      ]
+      if (submissionProvider.describeFilter()) {
+        items.push({ label: '$(clear-all) Clear Filter', field: 'clear' })
+      }
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Filter submissions by',
+      })
+      if (!selected) return
+
+      switch (selected.field) {
+        case 'problemId': {
+          const problemIdStr = await vscode.window.showInputBox({
+            prompt: 'Show submissions to a problem (empty for any problem)',
+            value: filter.problemId?.toString() ?? '',
+            validateInput: (text) =>
+              /^\d*$/.test(text.trim())
+                ? null
+                : 'Please enter a valid number ID',
+          })
+          if (problemIdStr === undefined) return
+          filter.problemId = problemIdStr.trim()
+            ? parseInt(problemIdStr, 10)
+            : undefined
+          break
+        }
+        case 'status': {
+          const status = await vscode.window.showQuickPick(
+            [
+              { label: 'Any Verdict', status: undefined },
+              ...getKnownStatuses().map((status) => {
+                const { icon, label } = getStatusInfo(status)
+                return {
+                  label: `$(${icon}) ${label}`,
+                  description: status === filter.status ? 'current' : undefined,
+                  status,
+                }
+              }),
+            ],
+            { placeHolder: 'Show submissions with a verdict' },
+          )
+          if (!status) return
+          filter.status = status.status
+          break
+        }
+        case 'lang': {
+          // Only the languages the filtered problem accepts, if known
+          let languages = DEFAULT_LANGUAGES
+          if (filter.problemId) {
+            try {
+              const problem = await apiClient.getProblemDetails(
+                filter.problemId,
+              )
+              languages = problem.languages_accepted ?? languages
+            } catch (error) {
+              console.warn(
+                `Could not fetch accepted languages for problem ${filter.problemId}:`,
+                error,
+              )
+            }
+          }
+          const lang = await vscode.window.showQuickPick(
+            [
+              { label: 'Any Language', lang: undefined },
+              ...languages.map((lang) => ({
+                label: lang,
+                description: lang === filter.lang ? 'current' : undefined,
+                lang,
+              })),
+            ],
+            { placeHolder: 'Show submissions in a language' },
+          )
+          if (!lang) return
+          filter.lang = lang.lang
+          break
+        }
+        case 'clear':
+          submissionProvider.clearFilter()
+          return
+      }
+      submissionProvider.setFilter(filter)
+    }),
+
+    vscode.commands.registerCommand('acmoj.clearSubmissionFilter', () => {
+      submissionProvider.clearFilter()
+    }),
+
+    vscode.commands.registerCommand(
+      'acmoj.showProblemSubmissions',
+      async (arg?: number | { problem: ProblemBrief }) => {
+        if (!authService.isLoggedIn()) {
+          vscode.window.showWarningMessage('Please login to ACMOJ first.')
+          return
+        }
+
+        // From a problem tree item, or the problem of the active file
+        let problemId = typeof arg === 'number' ? arg : arg?.problem?.id
+        if (!problemId) {
+          const document = vscode.window.activeTextEditor?.document
+          const attemptedProblemId = document
+            ? inferProblemId(document)
+            : undefined
+          const problemIdStr = await vscode.window.showInputBox({
+            prompt: 'Enter the Problem ID to show your submissions to',
+            validateInput: (text) =>
+              /^\d+$/.test(text) ? null : 'Please enter a valid number ID',
+            value: attemptedProblemId ? attemptedProblemId.toString() : '',
+          })
+          if (!problemIdStr) return
+          problemId = parseInt(problemIdStr, 10)
+        }
+
+        submissionProvider.setFilter({ problemId })
+        vscode.commands.executeCommand('acmojSubmissions.focus')
+      },
+    ),
+
     vscode.commands.registerCommand(
       'acmoj.viewProblem',
       (problemId: number) => {
@@ -169,19 +833,7 @@ export function registerCommands(
 
         let attemptedProblemId: number | undefined
         if (typeof problemId !== 'number') {
-          // read the first line. if it is "// acmoj: xxx", use xxx as the problem ID
-          const firstLine = code.split('\n')[0].trim()
-          const matchFirstLine = firstLine.match(/(?:\/\/|#)\s*acmoj:\s*(\d+)/)
-          if (matchFirstLine) {
-            attemptedProblemId = parseInt(matchFirstLine[1], 10)
-          } else {
-            // attempt to fetch the problem ID from the file name
-            const fileName = document.fileName
-            const matchFileName = fileName.match(/\bP?(\d+)(?:\b|_)/)
-            if (matchFileName) {
-              attemptedProblemId = parseInt(matchFileName[1], 10)
-            }
-          }
+          attemptedProblemId = inferProblemId(document)
 
           const problemIdStr = await vscode.window.showInputBox({
             prompt: 'Enter the Problem ID to submit to',
@@ -193,14 +845,7 @@ export function registerCommands(
           problemId = parseInt(problemIdStr, 10)
         }
 
-        let availableLanguages: string[] = [
-          'cpp',
-          'python',
-          'java',
-          'c',
-          'git',
-          'verilog',
-        ]
+        let availableLanguages: string[] = DEFAULT_LANGUAGES
         try {
           const problem = await apiClient.getProblemDetails(problemId)
           if (problem.languages_accepted) {
@@ -260,6 +905,9 @@ export function registerCommands(
 
         const selectedLanguage = selectedLanguageItem.label
 
+        // Lines in the file that are not part of the submitted code
+        let headerLinesAdded = 0
+
         // write the problem ID to the first line of the file if it does not exist
         if (!attemptedProblemId || attemptedProblemId !== problemId) {
           const langCommentMap = {
@@ -283,7 +931,9 @@ export function registerCommands(
               new vscode.Range(0, 0, 0, 0),
               newFirstLine,
             )
-            await vscode.workspace.applyEdit(edit)
+            if (await vscode.workspace.applyEdit(edit)) {
+              headerLinesAdded = 1
+            }
           }
         }
 
@@ -318,6 +968,27 @@ export function registerCommands(
           async (
             progress: vscode.Progress<{ message?: string; increment?: number }>,
           ) => {
+            // Compile errors can only be mapped back onto source files
+            const source: SubmissionSource | undefined =
+              selectedLanguage !== 'git'
+                ? { uri: document.uri, lineOffset: headerLinesAdded }
+                : undefined
+            const enqueue = () => {
+              submissionQueue.enqueue(
+                problemId!,
+                selectedLanguage,
+                code,
+                source,
+              )
+              vscode.window.showWarningMessage(
+                `ACMOJ is offline. Submission for Problem ${problemId} has been queued and will be sent once the connection is back.`,
+              )
+            }
+
+            if (!apiClient.isOnline()) {
+              enqueue()
+              return
+            }
             try {
               const result = await apiClient.submitCode(
                 problemId!,
@@ -330,8 +1001,27 @@ export function registerCommands(
               submissionProvider.refresh()
 
               // 开始监控这个新提交
-              submissionMonitor.addSubmission(result.id)
+              submissionMonitor.addSubmission(result.id, undefined, source)
             } catch (error: any) {
+              if (error instanceof NetworkError) {
+                if (error.connectionFailed) {
+                  enqueue() // The server could not be reached
+                } else {
+                  // Timed out or dropped, the server may have accepted it
+                  submissionProvider.refresh()
+                  vscode.window
+                    .showWarningMessage(
+                      `The connection was lost while submitting Problem ${problemId}. Check My Submissions before submitting again.`,
+                      'Show My Submissions',
+                    )
+                    .then((selection) => {
+                      if (selection === 'Show My Submissions') {
+                        vscode.commands.executeCommand('acmojSubmissions.focus')
+                      }
+                    })
+                }
+                return
+              }
               vscode.window.showErrorMessage(
                 `Submission failed: ${error.message}`,
               )
@@ -341,6 +1031,24 @@ export function registerCommands(
       },
     ),
 
+    vscode.commands.registerCommand(
+      'acmoj.cancelQueuedSubmission',
+      async (item?: QueuedSubmissionTreeItem) => {
+        if (!item) return
+        const { problemId, id } = item.queued
+        const confirm = await vscode.window.showQuickPick(['Yes', 'No'], {
+          placeHolder: `Cancel the queued submission for Problem ${problemId}?`,
+        })
+        if (confirm !== 'Yes') return
+
+        if (!submissionQueue.cancel(id)) {
+          vscode.window.showWarningMessage(
+            'The submission is already being sent or has been sent.',
+          )
+        }
+      },
+    ),
+
     vscode.commands.registerCommand(
       'acmoj.abortSubmission',
       async (submissionId: number) => {
@@ -383,6 +1091,328 @@ export function registerCommands(
       },
     ),
 
+    vscode.commands.registerCommand('acmoj.runExamples', async () => {
+      if (!authService.isLoggedIn()) {
+        vscode.window.showWarningMessage('Please login to ACMOJ first.')
+        return
+      }
+
+      const editor = vscode.window.activeTextEditor
+      if (!editor) {
+        vscode.window.showWarningMessage('No active editor found.')
+        return
+      }
+      const document = editor.document
+
+      const language = getLocalLanguage(document.languageId)
+      if (!language) {
+        vscode.window.showWarningMessage(
+          `Running ${document.languageId} files locally is not supported.`,
+        )
+        return
+      }
+
+      const attemptedProblemId = inferProblemId(document)
+      const problemIdStr = await vscode.window.showInputBox({
+        prompt: 'Enter the Problem ID whose examples to run',
+        validateInput: (text) =>
+          /^\d+$/.test(text) ? null : 'Please enter a valid number ID',
+        value: attemptedProblemId ? attemptedProblemId.toString() : '',
+      })
+      if (!problemIdStr) return
+      const problemId = parseInt(problemIdStr, 10)
+
+      // Compile what is on disk, not a stale version of the file
+      if (document.isDirty) {
+        await document.save()
+      }
+
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `ACMOJ: Running examples of P${problemId}...`,
+          cancellable: true,
+        },
+        async (progress, token) => {
+          try {
+            const problem = await apiClient.getProblemDetails(problemId)
+            const examples = [
+              ...getProblemExamples(problem),
+              ...(await loadCustomTests(problemId)),
+            ]
+            if (examples.length === 0) {
+              vscode.window.showWarningMessage(
+                `Problem ${problemId} has no examples or custom tests to run.`,
+              )
+              return
+            }
+
+            progress.report({ message: 'Compiling...' })
+            const solution = await compileSolution(document.fileName, language)
+            try {
+              progress.report({ message: 'Running...' })
+              const limits = getProblemLimits(problem)
+              const results = await runTestCases(solution, examples, {
+                token,
+                limits,
+                checker: createChecker(getCheckerConfig(problemId)),
+              })
+              reportResults(
+                localRunOutput,
+                problemId,
+                document.fileName,
+                results,
+                limits,
+              )
+
+              const passedCount = results.filter((r) => r.passed).length
+              const message = `P${problemId}: ${passedCount}/${results.length} examples passed.`
+              const show =
+                passedCount === results.length
+                  ? vscode.window.showInformationMessage(message, 'Show Output')
+                  : vscode.window.showWarningMessage(message, 'Show Output')
+              show.then((selection) => {
+                if (selection === 'Show Output') localRunOutput.show(true)
+              })
+            } finally {
+              await solution.dispose()
+            }
+          } catch (error: any) {
+            if (error instanceof CompilationError) {
+              localRunOutput.appendLine(
+                `=== Problem ${problemId}: compilation failed ===`,
+              )
+              localRunOutput.appendLine(error.output)
+              localRunOutput.show(true)
+              vscode.window.showErrorMessage(
+                `Compilation of ${path.basename(document.fileName)} failed.`,
+              )
+            } else {
+              vscode.window.showErrorMessage(
+                `Failed to run examples: ${error.message}`,
+              )
+            }
+          }
+        },
+      )
+    }),
+
+    vscode.commands.registerCommand(
+      'acmoj.addCustomTest',
+      async (problemId?: number) => {
+        if (typeof problemId !== 'number') {
+          const editor = vscode.window.activeTextEditor
+          const attemptedProblemId = editor
+            ? inferProblemId(editor.document)
+            : undefined
+          const problemIdStr = await vscode.window.showInputBox({
+            prompt: 'Enter the Problem ID to add a custom test case to',
+            validateInput: (text) =>
+              /^\d+$/.test(text) ? null : 'Please enter a valid number ID',
+            value: attemptedProblemId ? attemptedProblemId.toString() : '',
+          })
+          if (!problemIdStr) return
+          problemId = parseInt(problemIdStr, 10)
+        }
+
+        try {
+          const name = await getNextCustomTestName(problemId)
+          const test = await saveCustomTest(problemId, name, '', '')
+          await openCustomTest(test)
+        } catch (error: any) {
+          vscode.window.showErrorMessage(
+            `Failed to add custom test case: ${error.message}`,
+          )
+        }
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'acmoj.editCustomTest',
+      async (problemId: number, name: string) => {
+        const test = (await loadCustomTests(problemId)).find(
+          (t) => t.name === name,
+        )
+        if (!test) {
+          vscode.window.showErrorMessage(
+            `Custom test case ${name} of problem ${problemId} not found.`,
+          )
+          return
+        }
+        await openCustomTest(test)
+      },
+    ),
+
+    vscode.commands.registerCommand(
+      'acmoj.deleteCustomTest',
+      async (problemId: number, name: string) => {
+        const confirm = await vscode.window.showWarningMessage(
+          `Delete custom test case ${name} of problem ${problemId}?`,
+          { modal: true },
+          'Delete',
+        )
+        if (confirm !== 'Delete') return
+        await deleteCustomTest(problemId, name)
+      },
+    ),
+
+    vscode.commands.registerCommand('acmoj.stressTest', async () => {
+      const editor = vscode.window.activeTextEditor
+      if (!editor) {
+        vscode.window.showWarningMessage('No active editor found.')
+        return
+      }
+      const document = editor.document
+      if (!getLocalLanguage(document.languageId)) {
+        vscode.window.showWarningMessage(
+          `Running ${document.languageId} files locally is not supported.`,
+        )
+        return
+      }
+
+      const attemptedProblemId = inferProblemId(document)
+      const problemIdStr = await vscode.window.showInputBox({
+        prompt: 'Enter the Problem ID to save the failing input to',
+        validateInput: (text) =>
+          /^\d+$/.test(text) ? null : 'Please enter a valid number ID',
+        value: attemptedProblemId ? attemptedProblemId.toString() : '',
+      })
+      if (!problemIdStr) return
+      const problemId = parseInt(problemIdStr, 10)
+
+      const pickSource = async (openLabel: string) => {
+        const picked = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          openLabel,
+          defaultUri: vscode.Uri.file(path.dirname(document.fileName)),
+          filters: { 'Source Files': ['cpp', 'cc', 'cxx', 'c', 'py', 'java'] },
+        })
+        return picked?.[0]
+      }
+      const bruteForceUri = await pickSource('Select Brute-Force Solution')
+      if (!bruteForceUri) return
+      const generatorUri = await pickSource('Select Input Generator')
+      if (!generatorUri) return
+
+      if (document.isDirty) {
+        await document.save()
+      }
+
+      const maxIterations = vscode.workspace
+        .getConfiguration('acmoj')
+        .get<number>('stressTestIterations', 1000)
+      const compiled: CompiledSolution[] = []
+
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `ACMOJ: Stress testing P${problemId}`,
+          cancellable: true,
+        },
+        async (progress, token) => {
+          const compile = async (fileName: string) => {
+            const language = getLocalLanguageForFile(fileName)
+            if (!language) {
+              throw new Error(
+                `Running ${path.basename(fileName)} locally is not supported.`,
+              )
+            }
+            progress.report({
+              message: `Compiling ${path.basename(fileName)}...`,
+            })
+            try {
+              const solution = await compileSolution(fileName, language)
+              compiled.push(solution)
+              return solution
+            } catch (error) {
+              if (error instanceof CompilationError) {
+                localRunOutput.appendLine(
+                  `=== ${path.basename(fileName)}: compilation failed ===`,
+                )
+                localRunOutput.appendLine(error.output)
+                localRunOutput.show(true)
+              }
+              throw error
+            }
+          }
+
+          try {
+            const programs = {
+              solution: await compile(document.fileName),
+              bruteForce: await compile(bruteForceUri.fsPath),
+              generator: await compile(generatorUri.fsPath),
+            }
+            const failure = await runStressTest(
+              programs,
+              createChecker(getCheckerConfig(problemId)),
+              maxIterations,
+              progress,
+              token,
+            )
+            if (!failure) {
+              if (!token.isCancellationRequested) {
+                vscode.window.showInformationMessage(
+                  `No difference found in ${maxIterations} iterations.`,
+                )
+              }
+              return
+            }
+
+            const name = await getNextCustomTestName(problemId, 'stress')
+            const test = await saveCustomTest(
+              problemId,
+              name,
+              failure.input,
+              failure.expected.stdout,
+            )
+
+            localRunOutput.appendLine(
+              `=== Problem ${problemId}: stress test failed on iteration ${failure.iteration}, saved as ${name} ===`,
+            )
+            localRunOutput.appendLine('Input:')
+            localRunOutput.appendLine(failure.input)
+            if (failure.actual.timedOut) {
+              localRunOutput.appendLine('Solution timed out.')
+            } else if (failure.actual.outputLimitExceeded) {
+              localRunOutput.appendLine('Solution exceeded the output limit.')
+            } else if (failure.actual.exitCode !== 0) {
+              localRunOutput.appendLine(
+                `Solution crashed (${failure.actual.signal || `exit code ${failure.actual.exitCode}`}).`,
+              )
+              localRunOutput.appendLine(failure.actual.stderr)
+            } else {
+              localRunOutput.appendLine('--- brute force')
+              localRunOutput.appendLine('+++ solution')
+              localRunOutput.appendLine(
+                formatOutputDiff(
+                  failure.expected.stdout,
+                  failure.actual.stdout,
+                ),
+              )
+            }
+            localRunOutput.appendLine('')
+
+            vscode.window
+              .showWarningMessage(
+                `Found a failing input on iteration ${failure.iteration}. Saved it as custom test ${name}.`,
+                'Open Test Case',
+                'Show Output',
+              )
+              .then((selection) => {
+                if (selection === 'Open Test Case') openCustomTest(test)
+                if (selection === 'Show Output') localRunOutput.show(true)
+              })
+          } catch (error: any) {
+            vscode.window.showErrorMessage(
+              `Stress test failed: ${error.message}`,
+            )
+          } finally {
+            await Promise.all(compiled.map((solution) => solution.dispose()))
+          }
+        },
+      )
+    }),
+
     vscode.commands.registerCommand('acmoj.clearCache', async () => {
       const confirmation = await vscode.window.showWarningMessage(
         'Are you sure you want to clear all cached data? This will refresh all problem and submission data.',
@@ -392,7 +1422,7 @@ export function registerCommands(
       )
 
       if (confirmation === 'Confirm') {
-        apiClient.clearCache()
+        await apiClient.clearCache(true)
         vscode.window.showInformationMessage('All cache data has been cleared')
         // Refresh views
         problemsetProvider.refresh()
@@ -0,0 +1,118 @@
+import * as vscode from 'vscode'
+
+export interface CompilerMessage {
+  line: number // 1-based
+  column: number | null // 1-based
+  severity: 'error' | 'warning' | 'note'
+  message: string
+}
+
+/**
+ * Where the code of a submission came from, so compiler messages can be
+ * mapped back onto the file
+ */
+export interface SubmissionSource {
+  uri: vscode.Uri
+  // Lines present in the file but not in the submitted code, e.g. the
+  // `// acmoj: <id>` header written after the code was read
+  lineOffset: number
+}
+
+// main.cpp:12:5: error: ... (GCC/Clang) or Main.java:12: error: ... (javac)
+const COMPILER_REGEX =
+  /^([^\n:]*):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note):\s*(.*)$/
+// File "main.py", line 12 (Python traceback)
+const PYTHON_LOCATION_REGEX = /^\s*File "[^"]*", line (\d+)/
+const PYTHON_ERROR_REGEX = /^(\w+(?:Error|Exception|Warning)):?\s*(.*)$/
+
+/**
+ * Parse GCC/Clang, javac or Python error output into compiler messages
+ */
+export function parseCompilerOutput(output: string): CompilerMessage[] {
+  const messages: CompilerMessage[] = []
+  let pythonLine: number | null = null
+
+  for (const line of output.replace(/\r\n/g, '\n').split('\n')) {
+    let match = line.match(COMPILER_REGEX)
+    if (match) {
+      // Messages located in system headers do not belong to the file
+      if (!match[1].startsWith('/usr/')) {
+        messages.push({
+          line: parseInt(match[2], 10),
+          column: match[3] ? parseInt(match[3], 10) : null,
+          severity:
+            match[4] === 'warning'
+              ? 'warning'
+              : match[4] === 'note'
+                ? 'note'
+                : 'error',
+          message: match[5],
+        })
+      }
+      continue
+    }
+
+    // A traceback names the innermost location last, then the error itself
+    match = line.match(PYTHON_LOCATION_REGEX)
+    if (match) {
+      pythonLine = parseInt(match[1], 10)
+      continue
+    }
+    match = line.match(PYTHON_ERROR_REGEX)
+    if (match && pythonLine !== null) {
+      messages.push({
+        line: pythonLine,
+        column: null,
+        severity: 'error',
+        message: match[2] ? `${match[1]}: ${match[2]}` : match[1],
+      })
+      pythonLine = null
+    }
+  }
+  return messages
+}
+
+/**
+ * Shows compile errors reported by the judge as diagnostics on the
+ * submitted file
+ */
+export class CompileDiagnosticsService implements vscode.Disposable {
+  private collection =
+    vscode.languages.createDiagnosticCollection('acmoj-compile')
+
+  /**
+   * Replace the diagnostics of a file with the messages of a compile error.
+   * @returns the number of diagnostics created
+   */
+  report(source: SubmissionSource, compilerOutput: string): number {
+    const diagnostics = parseCompilerOutput(compilerOutput).map((msg) => {
+      const line = Math.max(msg.line - 1 + source.lineOffset, 0)
+      const column = msg.column !== null ? msg.column - 1 : 0
+      const range =
+        msg.column !== null
+          ? new vscode.Range(line, column, line, column + 1)
+          : new vscode.Range(line, 0, line, Number.MAX_SAFE_INTEGER)
+      const diagnostic = new vscode.Diagnostic(
+        range,
+        msg.message,
+        msg.severity === 'error'
+          ? vscode.DiagnosticSeverity.Error
+          : msg.severity === 'warning'
+            ? vscode.DiagnosticSeverity.Warning
+            : vscode.DiagnosticSeverity.Information,
+      )
+      diagnostic.source = 'ACMOJ'
+      return diagnostic
+    })
+    this.collection.set(source.uri, diagnostics)
+    return diagnostics.length
+  }
+
+  clear(uri: vscode.Uri): void {
+    this.collection.delete(uri)
+  }
+
+  dispose() {
+    this.collection.dispose()
+  }
+}
@@ -0,0 +1,150 @@
+import * as vscode from 'vscode'
+import { TestCase } from './localRunner'
+
+// Custom test cases live in the workspace as `<name>.in` / `<name>.out` pairs
+export const CUSTOM_TESTS_GLOB = '.acmoj/tests/*/*.{in,out}'
+
+export interface CustomTestCase extends TestCase {
+  inputUri: vscode.Uri
+  outputUri: vscode.Uri
+}
+
+/**
+ * Get the directory holding the custom tests of a problem, or undefined if
+ * no workspace folder is open.
+ */
+export function getCustomTestsDir(problemId: number): vscode.Uri | undefined {
+  const folder = vscode.workspace.workspaceFolders?.[0]
+  if (!folder) return undefined
+  return vscode.Uri.joinPath(folder.uri, '.acmoj', 'tests', `${problemId}`)
+}
+
+/**
+ * Extract the problem ID from the URI of a custom test file
+ */
+export function getProblemIdFromTestUri(uri: vscode.Uri): number | undefined {
+  const match = uri.path.match(/\/\.acmoj\/tests\/(\d+)\/[^/]+$/)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+/**
+ * Load the custom tests of a problem, sorted by name.
+ * An input without a matching `.out` file has no expected output.
+ */
+export async function loadCustomTests(
+  problemId: number,
+): Promise<CustomTestCase[]> {
+  const dir = getCustomTestsDir(problemId)
+  if (!dir) return []
+
+  let entries: [string, vscode.FileType][]
+  try {
+    entries = await vscode.workspace.fs.readDirectory(dir)
+  } catch {
+    return [] // No custom tests for this problem yet
+  }
+
+  const names = entries
+    .filter(
+      ([file, type]) => type === vscode.FileType.File && file.endsWith('.in'),
+    )
+    .map(([file]) => file.slice(0, -'.in'.length))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+
+  const tests: CustomTestCase[] = []
+  for (const name of names) {
+    const inputUri = vscode.Uri.joinPath(dir, `${name}.in`)
+    const outputUri = vscode.Uri.joinPath(dir, `${name}.out`)
+    const input = await readText(inputUri)
+    if (input === undefined) continue
+    tests.push({
+      name,
+      input,
+      output: (await readText(outputUri)) ?? null,
+      inputUri,
+      outputUri,
+    })
+  }
+  return tests
+}
+
+/**
+ * Save a custom test case, overwriting any test with the same name
+ */
+export async function saveCustomTest(
+  problemId: number,
+  name: string,
+  input: string,
+  output: string | null,
+): Promise<CustomTestCase> {
+  const dir = getCustomTestsDir(problemId)
+  if (!dir) {
+    throw new Error('Open a workspace folder to store custom test cases.')
+  }
+  await vscode.workspace.fs.createDirectory(dir)
+
+  const inputUri = vscode.Uri.joinPath(dir, `${name}.in`)
+  const outputUri = vscode.Uri.joinPath(dir, `${name}.out`)
+  await vscode.workspace.fs.writeFile(inputUri, Buffer.from(input, 'utf8'))
+  await vscode.workspace.fs.writeFile(
+    outputUri,
+    Buffer.from(output ?? '', 'utf8'),
+  )
+  return { name, input, output, inputUri, outputUri }
+}
+
+/**
+ * Delete both files of a custom test case
+ */
+export async function deleteCustomTest(
+  problemId: number,
+  name: string,
+): Promise<void> {
+  const dir = getCustomTestsDir(problemId)
+  if (!dir) return
+  for (const ext of ['in', 'out']) {
+    try {
+      await vscode.workspace.fs.delete(
+        vscode.Uri.joinPath(dir, `${name}.${ext}`),
+      )
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+/**
+ * Pick a name like `case-3` that is not used by an existing test
+ */
+export async function getNextCustomTestName(
+  problemId: number,
+  prefix: string = 'case',
+): Promise<string> {
+  const existing = new Set(
+    (await loadCustomTests(problemId)).map((test) => test.name),
+  )
+  let index = 1
+  while (existing.has(`${prefix}-${index}`)) index++
+  return `${prefix}-${index}`
+}
+
+/**
+ * Open the input and expected output of a custom test side by side
+ */
+export async function openCustomTest(test: CustomTestCase): Promise<void> {
+  await vscode.window.showTextDocument(test.inputUri, {
+    viewColumn: vscode.ViewColumn.One,
+  })
+  await vscode.window.showTextDocument(test.outputUri, {
+    viewColumn: vscode.ViewColumn.Two,
+  })
+}
+
+async function readText(uri: vscode.Uri): Promise<string | undefined> {
+  try {
+    const content = await vscode.workspace.fs.readFile(uri)
+    return Buffer.from(content).toString('utf8')
+  } catch {
+    return undefined
+  }
+}
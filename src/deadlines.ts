@@ -0,0 +1,217 @@
+import * as vscode from 'vscode'
+import { ApiClient } from './api'
+import { AuthService } from './auth'
+import { ProblemStatusService } from './problemStatus'
+import { Problemset } from './types'
+
+const REMINDED_DEADLINES_KEY = 'acmoj_reminded_deadlines' // Key to persist the reminders shown in globalState
+const CHECK_INTERVAL = 60 * 1000 // Check for due reminders every minute
+
+/**
+ * The next deadline of a problemset: its end time, or the late submission
+ * deadline once it has ended
+ */
+export interface Deadline {
+  time: Date
+  late: boolean
+}
+
+export function getNextDeadline(
+  problemset: Problemset,
+  now: Date = new Date(),
+): Deadline | undefined {
+  const end = new Date(problemset.end_time)
+  if (now < end) {
+    return { time: end, late: false }
+  }
+  if (problemset.late_submission_deadline) {
+    const late = new Date(problemset.late_submission_deadline)
+    if (now < late) {
+      return { time: late, late: true }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Time left until a deadline, e.g. '2d 3h', '5h 20m' or '12m'
+ */
+export function formatTimeLeft(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  if (minutes < 1) return '<1m'
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${minutes}m`
+}
+
+/**
+ * Countdown for the description of a problemset, e.g. '5h 20m left' or
+ * 'late: 2d left'
+ */
+export function describeDeadline(deadline: Deadline, now: Date = new Date()) {
+  const left = `${formatTimeLeft(deadline.time.getTime() - now.getTime())} left`
+  return deadline.late ? `late: ${left}` : left
+}
+
+/**
+ * Reminds the user of the deadlines of problemsets with unsolved problems,
+ * the configured numbers of minutes before each deadline
+ */
+export class DeadlineReminderService implements vscode.Disposable {
+  private timer: NodeJS.Timeout | undefined
+  private checking: boolean = false
+  private disposables: vscode.Disposable[] = []
+
+  constructor(
+    private apiClient: ApiClient,
+    private authService: AuthService,
+    private problemStatus: ProblemStatusService,
+    private globalState: vscode.Memento,
+  ) {
+    this.disposables.push(
+      authService.onDidChangeLoginStatus((loggedIn) => {
+        if (loggedIn) this.check()
+      }),
+      authService.onDidChangeProfile((profile) => {
+        if (profile) this.check()
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('acmoj.deadlineReminders')) {
+          this.check()
+        }
+      }),
+    )
+  }
+
+  start() {
+    if (this.timer) return
+    this.timer = setInterval(() => this.check(), CHECK_INTERVAL)
+    this.check()
+  }
+
+  /**
+   * Minutes before a deadline to remind at, largest first
+   */
+  private getReminderOffsets(): number[] {
+    return vscode.workspace
+      .getConfiguration('acmoj')
+      .get<number[]>('deadlineReminders', [1440, 60, 10])
+      .filter((m) => typeof m === 'number' && m > 0)
+      .sort((a, b) => b - a)
+  }
+
+  private async check() {
+    const offsets = this.getReminderOffsets()
+    if (this.checking || offsets.length === 0) return
+    if (!this.authService.isLoggedIn() || !this.authService.getProfile()) {
+      return
+    }
+
+    this.checking = true
+    try {
+      // Reminders already shown, as the smallest offset reminded at per
+      // problemset and deadline
+      const key = this.authService.accountScopedKey(REMINDED_DEADLINES_KEY)
+      const now = new Date()
+      const reminded = pruneReminded(
+        this.globalState.get<Record<string, number>>(key, {}),
+        now,
+      )
+
+      const { problemsets } = await this.apiClient.getUserProblemsets()
+      for (const ps of problemsets) {
+        if (now < new Date(ps.start_time)) continue
+        const deadline = getNextDeadline(ps, now)
+        if (!deadline) continue
+
+        // Only the closest reminder that is due, e.g. when VS Code was
+        // opened ten minutes before the deadline
+        const minutesLeft = (deadline.time.getTime() - now.getTime()) / 60000
+        const due = offsets.filter((m) => minutesLeft <= m).pop()
+        const reminderKey = `${ps.id}@${deadline.time.toISOString()}`
+        if (due === undefined || (reminded[reminderKey] ?? Infinity) <= due) {
+          continue
+        }
+
+        try {
+          const unsolved = await this.countUnsolved(ps)
+          if (unsolved > 0) {
+            this.remind(ps, deadline, unsolved, now)
+          }
+          reminded[reminderKey] = due
+        } catch (error) {
+          // Try again on the next check
+          console.warn(`Failed to check problemset ${ps.id}:`, error)
+        }
+      }
+      await this.globalState.update(key, reminded)
+    } catch (error) {
+      console.warn('Failed to check deadlines:', error)
+    } finally {
+      this.checking = false
+    }
+  }
+
+  /**
+   * Problems of a problemset not solved yet. Problems whose status cannot be
+   * fetched count as unsolved.
+   */
+  private async countUnsolved(problemset: Problemset): Promise<number> {
+    const { problems } = await this.apiClient.getProblemsetDetails(
+      problemset.id,
+    )
+    const statuses = await this.problemStatus.getStatuses(
+      (problems ?? []).map((p) => p.id),
+    )
+    return (problems ?? []).filter(
+      (p) => statuses.get(p.id)?.state !== 'solved',
+    ).length
+  }
+
+  private remind(
+    problemset: Problemset,
+    deadline: Deadline,
+    unsolved: number,
+    now: Date,
+  ) {
+    const left = formatTimeLeft(deadline.time.getTime() - now.getTime())
+    const name = deadline.late
+      ? `Late submission for ${problemset.name}`
+      : problemset.name
+    vscode.window
+      .showWarningMessage(
+        `${name} closes in ${left} (${deadline.time.toLocaleString()}), with ${unsolved} unsolved problem(s).`,
+        'Show Problemsets',
+      )
+      .then((selection) => {
+        if (selection === 'Show Problemsets') {
+          vscode.commands.executeCommand('acmojProblemsets.focus')
+        }
+      })
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+    this.disposables.forEach((d) => d.dispose())
+  }
+}
+
+// Forget reminders of deadlines that have passed
+function pruneReminded(
+  reminded: Record<string, number>,
+  now: Date,
+): Record<string, number> {
+  const pruned: Record<string, number> = {}
+  for (const [key, offset] of Object.entries(reminded)) {
+    const time = new Date(key.substring(key.indexOf('@') + 1))
+    if (time > now) {
+      pruned[key] = offset
+    }
+  }
+  return pruned
+}
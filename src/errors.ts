@@ -0,0 +1,82 @@
+/**
+ * Base class of the errors thrown by ApiClient
+ */
+export class ApiRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | undefined, // HTTP status, if the server responded
+    public readonly endpoint: string | undefined, // Request path, e.g. '/problem/1001'
+  ) {
+    super(message)
+    this.name = new.target.name
+  }
+}
+
+// Errors of connecting to the server, before anything is sent
+const CONNECTION_ERROR_CODES = [
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+]
+
+/**
+ * The server could not be reached: DNS failure, refused connection, TLS
+ * error or timeout
+ */
+export class NetworkError extends ApiRequestError {
+  constructor(
+    message: string,
+    endpoint?: string,
+    public readonly code?: string, // Socket error code, e.g. 'ECONNREFUSED'
+  ) {
+    super(
+      `Network connectivity issue: ${message}. Try checking your network connection or VPN settings.`,
+      undefined,
+      endpoint,
+    )
+  }
+
+  /**
+   * Whether the connection failed before the request was sent, so sending
+   * it again cannot duplicate it. A timed out request may have been handled.
+   */
+  get connectionFailed(): boolean {
+    return CONNECTION_ERROR_CODES.includes(this.code ?? '')
+  }
+}
+
+/**
+ * 401/403: the token is invalid or lacks permission
+ */
+export class AuthError extends ApiRequestError {}
+
+/**
+ * 404: the requested resource does not exist or is hidden
+ */
+export class NotFoundError extends ApiRequestError {}
+
+/**
+ * 429: too many requests
+ */
+export class RateLimitError extends ApiRequestError {
+  constructor(
+    message: string,
+    endpoint: string | undefined,
+    public readonly retryAfterMs: number | undefined, // From the Retry-After header
+  ) {
+    super(message, 429, endpoint)
+  }
+}
+
+/**
+ * Other 4xx: the server rejected the request, e.g. an unsupported language.
+ * The message is the one given by the server.
+ */
+export class ValidationError extends ApiRequestError {}
+
+/**
+ * 5xx: the server failed to handle the request
+ */
+export class ServerError extends ApiRequestError {}
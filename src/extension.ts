@@ -3,40 +3,144 @@ import { AuthService } from './auth'
 import { ApiClient } from './api'
 import { ProblemsetProvider } from './views/problemsetProvider'
 import { SubmissionProvider } from './views/submissionProvider'
+import { CourseProvider } from './views/courseProvider'
+import { ProblemProvider } from './views/problemProvider'
 import { registerCommands } from './commands'
 import { SubmissionMonitorService } from './submissionMonitor'
+import { AcmojTestController } from './testController'
+import { CompileDiagnosticsService } from './compileDiagnostics'
+import { JudgingStatusBar } from './judgingStatusBar'
+import { SubmissionQueueService } from './submissionQueue'
+import { ServerProfileService } from './serverProfiles'
+import { ProblemStatusService } from './problemStatus'
+import { DeadlineReminderService } from './deadlines'
 import { Profile } from './types'
 
+let serverProfiles: ServerProfileService
 let authService: AuthService
 let apiClient: ApiClient
 let problemsetProvider: ProblemsetProvider
 let submissionProvider: SubmissionProvider
+let courseProvider: CourseProvider
+let problemProvider: ProblemProvider
 let submissionMonitor: SubmissionMonitorService
+let submissionQueue: SubmissionQueueService
 let statusBarItem: vscode.StatusBarItem
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log('Congratulations, your extension "vscode-acmoj" is now active!')
 
-  authService = new AuthService(context)
-  apiClient = new ApiClient(authService)
+  // Named servers, each with its own token and cache
+  serverProfiles = new ServerProfileService(context.globalState)
+  context.subscriptions.push(serverProfiles)
 
-  problemsetProvider = new ProblemsetProvider(apiClient, authService)
-  submissionProvider = new SubmissionProvider(apiClient, authService)
+  authService = new AuthService(context, serverProfiles)
+  apiClient = new ApiClient(
+    authService,
+    serverProfiles,
+    context.globalStorageUri,
+  )
+  context.subscriptions.push(apiClient)
+
+  // Offline mode: queue submissions until the server is reachable
+  submissionQueue = new SubmissionQueueService(
+    apiClient,
+    context.globalState,
+    authService,
+  )
+  context.subscriptions.push(submissionQueue)
+
+  courseProvider = new CourseProvider(apiClient, authService)
+  problemProvider = new ProblemProvider(apiClient, authService)
+  submissionProvider = new SubmissionProvider(
+    apiClient,
+    authService,
+    submissionQueue,
+  )
+
+  // Show compile errors from the judge on the submitted files
+  const compileDiagnostics = new CompileDiagnosticsService()
+  context.subscriptions.push(compileDiagnostics)
 
   // Create submission monitoring service
   submissionMonitor = new SubmissionMonitorService(
     apiClient,
     submissionProvider,
+    compileDiagnostics,
+    context.globalState,
+    authService,
+  )
+  context.subscriptions.push(submissionMonitor)
+
+  // Solved/attempted markers on problems, updated as submissions are judged
+  const problemStatus = new ProblemStatusService(
+    apiClient,
+    authService,
+    submissionMonitor,
+  )
+  context.subscriptions.push(problemStatus)
+  problemsetProvider = new ProblemsetProvider(
+    apiClient,
+    authService,
+    problemStatus,
+  )
+  context.subscriptions.push(problemsetProvider)
+
+  // Remind of deadlines of problemsets with unsolved problems
+  const deadlineReminders = new DeadlineReminderService(
+    apiClient,
+    authService,
+    problemStatus,
+    context.globalState,
   )
+  context.subscriptions.push(deadlineReminders)
+
+  // Show the progress of monitored submissions in the status bar
+  context.subscriptions.push(new JudgingStatusBar(submissionMonitor))
+
+  // Views of the old server or account are meaningless on the new one. Its
+  // submissions being judged are resumed once the new profile is loaded.
+  const onSessionChanged = () => {
+    submissionMonitor.reset()
+    problemsetProvider.refresh()
+    submissionProvider.refresh()
+    courseProvider.refresh()
+    problemProvider.refresh()
+  }
+  apiClient.onDidChangeServer(onSessionChanged)
+  authService.onDidChangeAccount(onSessionChanged)
+
+  // Watch queued submissions once they reach the judge
+  submissionQueue.onDidFlushSubmission(({ submissionId, source }) => {
+    submissionProvider.refresh()
+    submissionMonitor.addSubmission(submissionId, undefined, source)
+  })
 
   vscode.window.registerTreeDataProvider('acmojProblemsets', problemsetProvider)
-  vscode.window.registerTreeDataProvider('acmojSubmissions', submissionProvider)
+  vscode.window.registerTreeDataProvider('acmojCourses', courseProvider)
+
+  // The search keyword and problemset are shown next to the view title
+  const problemView = vscode.window.createTreeView('acmojProblems', {
+    treeDataProvider: problemProvider,
+  })
+  problemProvider.onDidChangeFilter(() => {
+    problemView.description = problemProvider.describeFilter()
+  })
+  context.subscriptions.push(problemView)
+
+  // Likewise the problem, verdict and language submissions are filtered by
+  const submissionView = vscode.window.createTreeView('acmojSubmissions', {
+    treeDataProvider: submissionProvider,
+  })
+  submissionProvider.onDidChangeFilter(() => {
+    submissionView.description = submissionProvider.describeFilter()
+  })
+  context.subscriptions.push(submissionView)
 
   statusBarItem = vscode.window.createStatusBarItem(
     vscode.StatusBarAlignment.Left,
     100,
   )
-  statusBarItem.command = 'acmoj.showMyProfile'
   context.subscriptions.push(statusBarItem)
 
   authService.onDidChangeLoginStatus((loggedIn) => {
@@ -55,10 +159,17 @@ export async function activate(context: vscode.ExtensionContext) {
     problemsetProvider,
     submissionProvider,
     submissionMonitor,
+    submissionQueue,
+    courseProvider,
+    serverProfiles,
+    problemProvider,
   )
 
   context.subscriptions.push(authService)
 
+  // Expose problem examples in the Test Explorer
+  context.subscriptions.push(new AcmojTestController(apiClient, authService))
+
   vscode.commands.executeCommand(
     'setContext',
     'acmoj.loggedIn',
@@ -68,20 +179,50 @@ export async function activate(context: vscode.ExtensionContext) {
   if (authService.isLoggedIn()) {
     problemsetProvider.refresh()
     submissionProvider.refresh()
+    courseProvider.refresh()
+  }
+
+  // Pick up submissions that were still being judged or queued before a
+  // reload, once the token has been loaded from storage
+  if (authService.isLoggedIn()) {
+    submissionMonitor.resume()
+    submissionQueue.flush()
   }
+  deadlineReminders.start()
+  authService.onDidChangeLoginStatus((loggedIn) => {
+    if (loggedIn) {
+      submissionMonitor.resume()
+      submissionQueue.flush()
+    }
+  })
+  authService.onDidChangeProfile((profile) => {
+    if (profile) {
+      submissionMonitor.resume()
+      submissionQueue.flush()
+    }
+  })
 }
 
 function updateStatusBar(profile: Profile | null): void {
+  const accounts = authService.getAccounts().length
   if (profile) {
     statusBarItem.text = `$(account) ACMOJ: ${profile.friendly_name || profile.username}`
-    statusBarItem.tooltip = `Logged in as ${profile.username} (${profile.student_id || 'No ID'})`
-    statusBarItem.show()
+    statusBarItem.tooltip = `Logged in as ${profile.username} (${profile.student_id || 'No ID'})\n${
+      accounts > 1
+        ? `Click to switch between ${accounts} accounts`
+        : 'Click to manage accounts'
+    }`
+    statusBarItem.command = 'acmoj.switchAccount'
+  } else if (accounts > 0) {
+    statusBarItem.text = `$(sign-in) ACMOJ: Logged Out`
+    statusBarItem.tooltip = `Click to choose an ACMOJ account`
+    statusBarItem.command = 'acmoj.switchAccount'
   } else {
     statusBarItem.text = `$(sign-in) ACMOJ: Logged Out`
     statusBarItem.tooltip = `Click to set ACMOJ Personal Access Token`
     statusBarItem.command = 'acmoj.setToken' // Change command when logged out
-    statusBarItem.show() // Keep it visible to allow setting token
   }
+  statusBarItem.show() // Keep it visible to allow setting token
 }
 
 export function deactivate() {
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode'
+import { SubmissionMonitorService, SubmissionUpdate } from './submissionMonitor'
+import { getStatusInfo } from './submissionStatus'
+
+/**
+ * Status bar item showing the submissions being judged, and the verdict of
+ * the latest one once judging finishes
+ */
+export class JudgingStatusBar implements vscode.Disposable {
+  private item: vscode.StatusBarItem
+  private judging: Map<number, SubmissionUpdate> = new Map()
+  private latest: SubmissionUpdate | undefined
+  private disposables: vscode.Disposable[] = []
+
+  constructor(monitor: SubmissionMonitorService) {
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99, // Right next to the account item
+    )
+    this.disposables.push(
+      this.item,
+      monitor.onDidUpdateSubmission((update) => this.onUpdate(update)),
+      monitor.onDidReset(() => {
+        this.judging.clear()
+        this.latest = undefined
+        this.render()
+      }),
+    )
+  }
+
+  private onUpdate(update: SubmissionUpdate) {
+    if (update.done) {
+      this.judging.delete(update.id)
+    } else {
+      this.judging.set(update.id, update)
+    }
+    // Keep showing the most recent submission
+    if (!this.latest || update.id >= this.latest.id) {
+      this.latest = update
+    }
+    this.render()
+  }
+
+  private render() {
+    if (!this.latest) {
+      this.item.hide()
+      return
+    }
+
+    if (this.judging.size > 0) {
+      // Prefer the newest submission still being judged
+      const current = [...this.judging.values()].reduce((a, b) =>
+        b.id > a.id ? b : a,
+      )
+      const others = this.judging.size - 1
+      this.item.text = `$(sync~spin) ${describe(current)}${
+        others > 0 ? ` (+${others})` : ''
+      }`
+      this.item.tooltip = `Judging submission #${current.id}${
+        others > 0 ? ` and ${others} more` : ''
+      }. Click to view details.`
+      this.setTarget(current.id)
+    } else {
+      const { icon, terminal } = getStatusInfo(this.latest.status)
+      const submission = this.latest.submission
+      const score =
+        submission?.should_show_score && submission.score !== null
+          ? ` ${submission.score}`
+          : ''
+      this.item.text = `$(${terminal ? icon : 'watch'}) ${describe(this.latest)}${score}`
+      this.item.tooltip = terminal
+        ? `Submission #${this.latest.id} finished. Click to view details.`
+        : `Stopped monitoring submission #${this.latest.id}. Click to view details.`
+      this.setTarget(this.latest.id)
+    }
+    this.item.show()
+  }
+
+  private setTarget(submissionId: number) {
+    this.item.command = {
+      command: 'acmoj.viewSubmission',
+      title: 'View Submission Details',
+      arguments: [submissionId],
+    }
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose())
+  }
+}
+
+function describe(update: SubmissionUpdate): string {
+  const problemId = update.submission?.problem?.id
+  const subject = problemId !== undefined ? `P${problemId}` : `#${update.id}`
+  return `${subject} ${getStatusInfo(update.status).label}`
+}
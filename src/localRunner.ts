@@ -0,0 +1,595 @@
+import * as vscode from 'vscode'
+import { spawn } from 'child_process'
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+import { Problem } from './types'
+
+const OUTPUT_LIMIT = 8 * 1024 * 1024 // Characters of stdout or stderr kept from a process
+
+export type LocalLanguage = 'cpp' | 'c' | 'python' | 'java'
+
+export interface TestCase {
+  name: string
+  input: string
+  output: string | null // null when the problem does not provide an answer
+}
+
+export interface RunResult {
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  signal: NodeJS.Signals | null
+  timedOut: boolean
+  outputLimitExceeded: boolean // Killed for writing more than OUTPUT_LIMIT
+  timeMs: number // Wall time
+  cpuTimeMs: number | null // null where it cannot be measured
+  peakMemoryBytes: number | null // null where it cannot be measured
+}
+
+export interface ResourceLimits {
+  timeMs: number | null
+  memoryBytes: number | null
+}
+
+export interface TestCaseResult {
+  testCase: TestCase
+  run: RunResult
+  passed: boolean
+  // Set when the output is right but the run would likely exceed a limit
+  limitExceeded: 'time' | 'memory' | null
+  checkerMessage?: string
+  checkerError?: boolean // The checker itself failed, so nothing is known about the output
+}
+
+/**
+ * Decides whether `actual` is an acceptable output for `input`
+ */
+export type OutputChecker = (
+  input: string,
+  expected: string,
+  actual: string,
+) => Promise<CheckResult>
+
+export interface CheckResult {
+  passed: boolean
+  message?: string
+  checkerError?: boolean // Set when the checker broke instead of judging
+}
+
+export interface RunTestCasesOptions {
+  token?: vscode.CancellationToken
+  limits?: ResourceLimits
+  checker?: OutputChecker // Defaults to an exact comparison
+}
+
+/**
+ * A solution that is ready to be executed. `dispose` removes the temporary
+ * build directory.
+ */
+export interface CompiledSolution {
+  command: string
+  args: string[]
+  cwd: string
+  dispose: () => Promise<void>
+}
+
+export class CompilationError extends Error {
+  constructor(public readonly output: string) {
+    super('Compilation failed.')
+    this.name = 'CompilationError'
+  }
+}
+
+/**
+ * Map a VS Code language ID to a language we know how to run locally
+ */
+export function getLocalLanguage(
+  vscodeLangId: string,
+): LocalLanguage | undefined {
+  switch (vscodeLangId.toLowerCase()) {
+    case 'cpp':
+    case 'cuda-cpp':
+      return 'cpp'
+    case 'c':
+      return 'c'
+    case 'python':
+      return 'python'
+    case 'java':
+      return 'java'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Map a file name to a language we know how to run locally
+ */
+export function getLocalLanguageForFile(
+  fileName: string,
+): LocalLanguage | undefined {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.cpp':
+    case '.cc':
+    case '.cxx':
+      return 'cpp'
+    case '.c':
+      return 'c'
+    case '.py':
+      return 'python'
+    case '.java':
+      return 'java'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Collect the examples of a problem, including the legacy single example
+ */
+export function getProblemExamples(problem: Problem): TestCase[] {
+  if (problem.examples && problem.examples.length > 0) {
+    return problem.examples
+      .filter((ex) => ex.input !== undefined && ex.input !== null)
+      .map((ex, i) => ({
+        name: ex.name || `Example ${i + 1}`,
+        input: ex.input!,
+        output: ex.output ?? null,
+      }))
+  }
+  if (problem.example_input) {
+    return [
+      {
+        name: 'Example',
+        input: problem.example_input,
+        output: problem.example_output,
+      },
+    ]
+  }
+  return []
+}
+
+/**
+ * Get the time and memory limits of a problem, if the API provides them
+ */
+export function getProblemLimits(problem: Problem): ResourceLimits {
+  return {
+    timeMs: problem.time_limit_msecs ?? null,
+    memoryBytes: problem.memory_limit_bytes ?? null,
+  }
+}
+
+/**
+ * Compile a source file into a temporary directory.
+ * @param debug compile with debug information and without optimizations
+ * @throws CompilationError if the compiler reports an error.
+ */
+export async function compileSolution(
+  sourcePath: string,
+  language: LocalLanguage,
+  { debug = false }: { debug?: boolean } = {},
+): Promise<CompiledSolution> {
+  const buildDir = await fs.mkdtemp(path.join(os.tmpdir(), 'acmoj-run-'))
+  const dispose = () => fs.rm(buildDir, { recursive: true, force: true })
+  const executable = path.join(
+    buildDir,
+    process.platform === 'win32' ? 'solution.exe' : 'solution',
+  )
+
+  const optimization = debug ? ['-g', '-O0'] : ['-O2']
+  let compile: { command: string; args: string[] } | undefined
+  let solution: CompiledSolution
+  switch (language) {
+    case 'cpp':
+      compile = {
+        command: 'g++',
+        args: ['-std=c++17', ...optimization, '-o', executable, sourcePath],
+      }
+      solution = { command: executable, args: [], cwd: buildDir, dispose }
+      break
+    case 'c':
+      compile = {
+        command: 'gcc',
+        args: [
+          '-std=c11',
+          ...optimization,
+          '-o',
+          executable,
+          sourcePath,
+          '-lm',
+        ],
+      }
+      solution = { command: executable, args: [], cwd: buildDir, dispose }
+      break
+    case 'java':
+      // The class to run is named after the source file, as javac requires
+      compile = {
+        command: 'javac',
+        args: [...(debug ? ['-g'] : []), '-d', buildDir, sourcePath],
+      }
+      solution = {
+        command: 'java',
+        args: ['-cp', buildDir, path.basename(sourcePath, '.java')],
+        cwd: buildDir,
+        dispose,
+      }
+      break
+    case 'python':
+      solution = {
+        command: process.platform === 'win32' ? 'python' : 'python3',
+        args: [sourcePath],
+        cwd: buildDir,
+        dispose,
+      }
+      break
+  }
+
+  if (compile) {
+    const result = await runProcess(
+      compile.command,
+      compile.args,
+      '',
+      60000,
+      buildDir,
+    )
+    if (result.exitCode !== 0) {
+      await dispose()
+      throw new CompilationError(
+        result.stderr || result.stdout || `${compile.command} failed.`,
+      )
+    }
+  }
+
+  return solution
+}
+
+/**
+ * Run a command, feeding `input` through stdin.
+ * The process is killed once `timeoutMs` has elapsed, or once it writes more
+ * than OUTPUT_LIMIT to stdout or stderr.
+ * On Linux, CPU time and peak memory are sampled from /proc while the
+ * process runs, so they are approximate for very short runs.
+ */
+export function runProcess(
+  command: string,
+  args: string[],
+  input: string,
+  timeoutMs: number,
+  cwd?: string,
+): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    const start = process.hrtime.bigint()
+    const child = spawn(command, args, { cwd })
+    let stdout = ''
+    let stderr = ''
+    let timedOut = false
+    let outputLimitExceeded = false
+
+    const timer = setTimeout(() => {
+      timedOut = true
+      child.kill('SIGKILL')
+    }, timeoutMs)
+
+    const usage = new ProcessUsageSampler(child.pid)
+
+    const checkOutputLimit = () => {
+      if (
+        !outputLimitExceeded &&
+        (stdout.length > OUTPUT_LIMIT || stderr.length > OUTPUT_LIMIT)
+      ) {
+        outputLimitExceeded = true
+        stdout = stdout.slice(0, OUTPUT_LIMIT)
+        stderr = stderr.slice(0, OUTPUT_LIMIT)
+        child.kill('SIGKILL')
+      }
+    }
+    child.stdout.on('data', (chunk) => {
+      if (outputLimitExceeded) return
+      stdout += chunk
+      checkOutputLimit()
+    })
+    child.stderr.on('data', (chunk) => {
+      if (outputLimitExceeded) return
+      stderr += chunk
+      checkOutputLimit()
+    })
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      clearTimeout(timer)
+      usage.stop()
+      if (error.code === 'ENOENT') {
+        reject(
+          new Error(
+            `'${command}' not found. Make sure it is installed and in your system's PATH.`,
+          ),
+        )
+      } else {
+        reject(error)
+      }
+    })
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer)
+      usage.stop()
+      resolve({
+        stdout,
+        stderr,
+        exitCode,
+        signal,
+        timedOut,
+        outputLimitExceeded,
+        timeMs: Number(process.hrtime.bigint() - start) / 1e6,
+        cpuTimeMs: usage.cpuTimeMs,
+        peakMemoryBytes: usage.peakMemoryBytes,
+      })
+    })
+
+    // The program may exit without reading all of its input
+    child.stdin.on('error', () => {})
+    child.stdin.end(input)
+  })
+}
+
+/**
+ * Samples CPU time and peak resident memory of a process from /proc.
+ * Reports null for both on platforms without /proc.
+ */
+class ProcessUsageSampler {
+  private static readonly INTERVAL_MS = 10
+  private static readonly CLOCK_TICKS_PER_SEC = 100 // USER_HZ on Linux
+
+  cpuTimeMs: number | null = null
+  peakMemoryBytes: number | null = null
+  private timer: NodeJS.Timeout | undefined
+  private sampling = false
+
+  constructor(private pid: number | undefined) {
+    if (process.platform !== 'linux' || pid === undefined) return
+    this.sample()
+    this.timer = setInterval(
+      () => this.sample(),
+      ProcessUsageSampler.INTERVAL_MS,
+    )
+  }
+
+  private async sample(): Promise<void> {
+    if (this.sampling) return
+    this.sampling = true
+    try {
+      const [stat, status] = await Promise.all([
+        fs.readFile(`/proc/${this.pid}/stat`, 'utf8'),
+        fs.readFile(`/proc/${this.pid}/status`, 'utf8'),
+      ])
+      // Fields after the parenthesized command name; utime and stime are
+      // fields 14 and 15 of the whole line
+      const fields = stat.slice(stat.lastIndexOf(')') + 2).split(' ')
+      const ticks = Number(fields[11]) + Number(fields[12])
+      this.cpuTimeMs = (ticks * 1000) / ProcessUsageSampler.CLOCK_TICKS_PER_SEC
+
+      const hwm = status.match(/^VmHWM:\s+(\d+)\s+kB/m)
+      if (hwm) {
+        this.peakMemoryBytes = Math.max(
+          this.peakMemoryBytes ?? 0,
+          Number(hwm[1]) * 1024,
+        )
+      }
+    } catch {
+      // The process has already exited
+    } finally {
+      this.sampling = false
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+  }
+}
+
+/**
+ * Check a run against the limits of a problem. CPU time is preferred over
+ * wall time where it is available, as the judge measures CPU time.
+ */
+export function checkLimits(
+  run: RunResult,
+  limits: ResourceLimits | undefined,
+): 'time' | 'memory' | null {
+  if (!limits) return null
+  const time = run.cpuTimeMs ?? run.timeMs
+  if (limits.timeMs !== null && time > limits.timeMs) {
+    return 'time'
+  }
+  if (
+    limits.memoryBytes !== null &&
+    run.peakMemoryBytes !== null &&
+    run.peakMemoryBytes > limits.memoryBytes
+  ) {
+    return 'memory'
+  }
+  return null
+}
+
+/**
+ * Format the resource usage of a run, e.g. "12 ms, CPU 10 ms, 3.20 MB"
+ */
+export function formatUsage(run: RunResult): string {
+  const parts = [`${run.timeMs.toFixed(0)} ms`]
+  if (run.cpuTimeMs !== null) {
+    parts.push(`CPU ${run.cpuTimeMs.toFixed(0)} ms`)
+  }
+  if (run.peakMemoryBytes !== null) {
+    parts.push(`${(run.peakMemoryBytes / 1024 / 1024).toFixed(2)} MB`)
+  }
+  return parts.join(', ')
+}
+
+/**
+ * Format the limits of a problem, e.g. "1000 ms, 256 MB"
+ */
+export function formatLimits(limits: ResourceLimits): string {
+  const parts: string[] = []
+  if (limits.timeMs !== null) parts.push(`${limits.timeMs} ms`)
+  if (limits.memoryBytes !== null) {
+    parts.push(`${(limits.memoryBytes / 1024 / 1024).toFixed(0)} MB`)
+  }
+  return parts.join(', ')
+}
+
+/**
+ * Compare outputs the way the judge does by default: trailing whitespace on
+ * each line and trailing blank lines are ignored.
+ */
+export function compareOutput(expected: string, actual: string): boolean {
+  return (
+    normalizeLines(expected).join('\n') === normalizeLines(actual).join('\n')
+  )
+}
+
+function normalizeLines(text: string): string[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  const normalized = lines.map((line) => line.trimEnd())
+  while (normalized.length > 0 && normalized[normalized.length - 1] === '') {
+    normalized.pop()
+  }
+  return normalized
+}
+
+/**
+ * Produce a line-by-line diff of expected and actual output
+ */
+export function formatOutputDiff(expected: string, actual: string): string {
+  const expectedLines = normalizeLines(expected)
+  const actualLines = normalizeLines(actual)
+  const result: string[] = []
+  const total = Math.max(expectedLines.length, actualLines.length)
+
+  for (let i = 0; i < total; i++) {
+    const exp = expectedLines[i]
+    const act = actualLines[i]
+    if (exp === act) {
+      result.push(`  ${exp}`)
+      continue
+    }
+    if (exp !== undefined) result.push(`- ${exp}`)
+    if (act !== undefined) result.push(`+ ${act}`)
+  }
+  return result.join('\n')
+}
+
+/**
+ * Run every test case against a compiled solution.
+ * A case whose output is right still fails if it likely exceeds `limits`.
+ */
+export async function runTestCases(
+  solution: CompiledSolution,
+  testCases: TestCase[],
+  { token, limits, checker }: RunTestCasesOptions = {},
+): Promise<TestCaseResult[]> {
+  const timeout = vscode.workspace
+    .getConfiguration('acmoj')
+    .get<number>('localRunTimeout', 5000)
+  const results: TestCaseResult[] = []
+
+  for (const testCase of testCases) {
+    if (token?.isCancellationRequested) break
+    const run = await runProcess(
+      solution.command,
+      solution.args,
+      testCase.input,
+      timeout,
+      solution.cwd,
+    )
+    let outputMatched =
+      !run.timedOut && !run.outputLimitExceeded && run.exitCode === 0
+    let checkerMessage: string | undefined
+    let checkerError: boolean | undefined
+    if (outputMatched && testCase.output !== null) {
+      const check = checker
+        ? await checker(testCase.input, testCase.output, run.stdout)
+        : { passed: compareOutput(testCase.output, run.stdout) }
+      outputMatched = check.passed
+      checkerMessage = check.message
+      checkerError = check.checkerError
+    }
+    const limitExceeded = outputMatched ? checkLimits(run, limits) : null
+    results.push({
+      testCase,
+      run,
+      passed: outputMatched && limitExceeded === null,
+      limitExceeded,
+      checkerMessage,
+      checkerError,
+    })
+  }
+  return results
+}
+
+/**
+ * Write a human-readable report of the results to an output channel
+ */
+export function reportResults(
+  channel: vscode.OutputChannel,
+  problemId: number,
+  fileName: string,
+  results: TestCaseResult[],
+  limits?: ResourceLimits,
+): void {
+  const passedCount = results.filter((r) => r.passed).length
+  channel.appendLine(
+    `=== Problem ${problemId}: ${path.basename(fileName)} (${passedCount}/${results.length} passed) ===`,
+  )
+  if (limits && (limits.timeMs !== null || limits.memoryBytes !== null)) {
+    channel.appendLine(`Limits: ${formatLimits(limits)}`)
+  }
+
+  for (const {
+    testCase,
+    run,
+    passed,
+    limitExceeded,
+    checkerMessage,
+    checkerError,
+  } of results) {
+    let verdict = passed ? 'PASSED' : 'FAILED'
+    if (run.timedOut) {
+      verdict = 'TIMED OUT'
+    } else if (run.outputLimitExceeded) {
+      verdict = 'OUTPUT LIMIT EXCEEDED'
+    } else if (run.exitCode !== 0) {
+      verdict = `RUNTIME ERROR (${run.signal || `exit code ${run.exitCode}`})`
+    } else if (limitExceeded === 'time') {
+      verdict = 'LIKELY TIME LIMIT EXCEEDED'
+    } else if (limitExceeded === 'memory') {
+      verdict = 'LIKELY MEMORY LIMIT EXCEEDED'
+    } else if (testCase.output === null) {
+      verdict = 'NO EXPECTED OUTPUT'
+    } else if (checkerError) {
+      verdict = 'CHECKER ERROR'
+    }
+    channel.appendLine(`[${verdict}] ${testCase.name} (${formatUsage(run)})`)
+    if (checkerMessage) {
+      channel.appendLine(`Checker: ${checkerMessage}`)
+    }
+
+    if ((!passed && limitExceeded === null) || testCase.output === null) {
+      if (
+        testCase.output !== null &&
+        !run.timedOut &&
+        !run.outputLimitExceeded &&
+        run.exitCode === 0
+      ) {
+        channel.appendLine('--- expected')
+        channel.appendLine('+++ actual')
+        channel.appendLine(formatOutputDiff(testCase.output, run.stdout))
+      } else {
+        channel.appendLine('Output:')
+        channel.appendLine(run.stdout)
+      }
+      if (run.stderr) {
+        channel.appendLine('Stderr:')
+        channel.appendLine(run.stderr)
+      }
+    }
+  }
+  channel.appendLine('')
+}
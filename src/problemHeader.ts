@@ -0,0 +1,32 @@
+import * as vscode from 'vscode'
+
+// Matches the "// acmoj: <id>" (or "# acmoj: <id>") header written on submit
+const HEADER_REGEX = /(?:\/\/|#)\s*acmoj:\s*(\d+)/
+
+/**
+ * Parse the problem ID from the `acmoj: <id>` header line of a file
+ */
+export function parseProblemIdHeader(firstLine: string): number | undefined {
+  const match = firstLine.trim().match(HEADER_REGEX)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+/**
+ * Guess the problem ID of a document from its `// acmoj: <id>` header,
+ * falling back to a number in the file name.
+ */
+export function inferProblemId(
+  document: vscode.TextDocument,
+): number | undefined {
+  // read the first line. if it is "// acmoj: xxx", use xxx as the problem ID
+  const fromHeader = parseProblemIdHeader(document.lineAt(0).text)
+  if (fromHeader !== undefined) {
+    return fromHeader
+  }
+  // attempt to fetch the problem ID from the file name
+  const matchFileName = document.fileName.match(/\bP?(\d+)(?:\b|_)/)
+  if (matchFileName) {
+    return parseInt(matchFileName[1], 10)
+  }
+  return undefined
+}
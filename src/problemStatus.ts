@@ -0,0 +1,159 @@
+import * as vscode from 'vscode'
+import { ApiClient } from './api'
+import { AuthService } from './auth'
+import { SubmissionMonitorService } from './submissionMonitor'
+import { SubmissionStatus } from './types'
+import { getStatusInfo } from './submissionStatus'
+
+const STATUS_TTL = 30 // Minutes to cache the status of a problem
+
+/**
+ * How far the user got on a problem
+ */
+export interface ProblemStatus {
+  state: 'solved' | 'attempted' | 'untouched'
+  latest?: SubmissionStatus // Verdict of the latest submission, unless untouched
+}
+
+/**
+ * Solved/attempted status of problems, derived from the user's submissions
+ * and cached per account. Updated when a monitored submission is judged.
+ */
+export class ProblemStatusService implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = []
+
+  // Fired with the problems whose status changed
+  private _onDidChangeStatus = new vscode.EventEmitter<number[]>()
+  public readonly onDidChangeStatus = this._onDidChangeStatus.event
+
+  constructor(
+    private apiClient: ApiClient,
+    private authService: AuthService,
+    monitor: SubmissionMonitorService,
+  ) {
+    this.disposables.push(
+      this._onDidChangeStatus,
+      monitor.onDidUpdateSubmission(({ done, submission }) => {
+        if (done && submission?.problem) {
+          this.invalidate(submission.problem.id)
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('acmoj.showProblemStatus')) {
+          this._onDidChangeStatus.fire([])
+        }
+      }),
+    )
+  }
+
+  isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration('acmoj')
+      .get<boolean>('showProblemStatus', true)
+  }
+
+  async getStatus(problemId: number): Promise<ProblemStatus> {
+    const username = this.authService.getProfile()?.username
+    if (!username) return { state: 'untouched' }
+
+    return this.apiClient.getCacheService().getOrFetch(
+      statusKey(problemId),
+      async (): Promise<ProblemStatus> => {
+        // Newest first, so the first page says whether it was touched at all
+        const { submissions } = await this.apiClient.getSubmissions(
+          undefined,
+          username,
+          problemId,
+        )
+        if (submissions.length === 0) return { state: 'untouched' }
+        const latest = submissions[0].status
+        if (submissions.some((s) => s.status === 'accepted')) {
+          return { state: 'solved', latest }
+        }
+        // An older submission may still have been accepted
+        const accepted = await this.apiClient.getSubmissions(
+          undefined,
+          username,
+          problemId,
+          'accepted',
+        )
+        return {
+          state: accepted.submissions.length > 0 ? 'solved' : 'attempted',
+          latest,
+        }
+      },
+      STATUS_TTL,
+      true,
+    )
+  }
+
+  /**
+   * Fetch the status of several problems. Problems whose status cannot be
+   * fetched are left out.
+   */
+  async getStatuses(problemIds: number[]): Promise<Map<number, ProblemStatus>> {
+    const statuses: Map<number, ProblemStatus> = new Map()
+    await Promise.all(
+      problemIds.map(async (id) => {
+        try {
+          statuses.set(id, await this.getStatus(id))
+        } catch (error) {
+          console.warn(`Failed to get the status of problem ${id}:`, error)
+        }
+      }),
+    )
+    return statuses
+  }
+
+  /**
+   * Forget the status of a problem, e.g. after submitting to it
+   */
+  invalidate(problemId: number) {
+    this.apiClient.getCacheService().delete(statusKey(problemId))
+    this._onDidChangeStatus.fire([problemId])
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose())
+  }
+}
+
+function statusKey(problemId: number): string {
+  return `problem-status:${problemId}`
+}
+
+/**
+ * Icon for a problem status, colored like the submission verdicts
+ */
+export function getProblemStatusIcon(status: ProblemStatus): vscode.ThemeIcon {
+  switch (status.state) {
+    case 'solved':
+      return new vscode.ThemeIcon(
+        'pass-filled',
+        new vscode.ThemeColor('testing.iconPassed'),
+      )
+    case 'attempted':
+      return new vscode.ThemeIcon(
+        'circle-large-outline',
+        new vscode.ThemeColor('testing.iconFailed'),
+      )
+    case 'untouched':
+      return new vscode.ThemeIcon('circle-outline')
+  }
+}
+
+/**
+ * Short description of a problem status, e.g. 'Attempted · Wrong Answer'
+ */
+export function describeProblemStatus(status: ProblemStatus): string {
+  switch (status.state) {
+    case 'solved':
+      return 'Solved'
+    case 'attempted':
+      return status.latest
+        ? `Attempted · ${getStatusInfo(status.latest).label}`
+        : 'Attempted'
+    case 'untouched':
+      return ''
+  }
+}
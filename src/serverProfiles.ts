@@ -0,0 +1,150 @@
+import * as vscode from 'vscode'
+import * as crypto from 'crypto'
+
+const ACTIVE_PROFILE_KEY = 'acmoj_active_server_profile' // Key to persist the active profile in globalState
+export const DEFAULT_PROFILE_NAME = 'Default'
+
+/**
+ * A named ACMOJ server, e.g. production or a staging instance
+ */
+export interface ServerProfile {
+  name: string
+  baseUrl: string
+}
+
+/**
+ * Server profiles from `acmoj.serverProfiles`, plus the default profile
+ * using `acmoj.baseUrl`. Accounts and the cache are kept per profile, see
+ * `scopedKey`.
+ */
+export class ServerProfileService implements vscode.Disposable {
+  private active: ServerProfile
+  private statusBarItem: vscode.StatusBarItem
+  private disposables: vscode.Disposable[] = []
+
+  private _onDidChangeActiveProfile = new vscode.EventEmitter<ServerProfile>()
+  public readonly onDidChangeActiveProfile =
+    this._onDidChangeActiveProfile.event
+
+  constructor(private globalState: vscode.Memento) {
+    this.active = this.resolveActiveProfile()
+
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      101, // Left of the account item
+    )
+    this.statusBarItem.command = 'acmoj.switchServerProfile'
+
+    this.disposables.push(
+      this.statusBarItem,
+      this._onDidChangeActiveProfile,
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (
+          e.affectsConfiguration('acmoj.baseUrl') ||
+          e.affectsConfiguration('acmoj.serverProfiles')
+        ) {
+          // The active profile may have been edited or removed
+          this.setActive(this.resolveActiveProfile())
+          this.updateStatusBar()
+        }
+      }),
+    )
+    this.updateStatusBar()
+  }
+
+  getProfiles(): ServerProfile[] {
+    const config = vscode.workspace.getConfiguration('acmoj')
+    const profiles: ServerProfile[] = [
+      {
+        name: DEFAULT_PROFILE_NAME,
+        baseUrl: config.get<string>('baseUrl', 'https://acm.sjtu.edu.cn'),
+      },
+    ]
+    for (const profile of config.get<ServerProfile[]>('serverProfiles', [])) {
+      // Skip malformed entries and duplicate names
+      if (
+        !profile?.name ||
+        !profile.baseUrl ||
+        profiles.some((p) => p.name === profile.name)
+      ) {
+        continue
+      }
+      profiles.push({
+        name: profile.name,
+        baseUrl: profile.baseUrl.replace(/\/+$/, ''),
+      })
+    }
+    return profiles
+  }
+
+  getActiveProfile(): ServerProfile {
+    return this.active
+  }
+
+  /**
+   * Make a profile the active one
+   * @returns false if there is no profile with that name
+   */
+  async switchTo(name: string): Promise<boolean> {
+    const profile = this.getProfiles().find((p) => p.name === name)
+    if (!profile) return false
+    await this.globalState.update(ACTIVE_PROFILE_KEY, name)
+    this.setActive(profile)
+    this.updateStatusBar()
+    return true
+  }
+
+  /**
+   * Key to store data of the active profile under. The default profile uses
+   * the plain key, so data stored before profiles existed is kept.
+   */
+  scopedKey(key: string): string {
+    return this.active.name === DEFAULT_PROFILE_NAME
+      ? key
+      : `${key}@${this.active.name}`
+  }
+
+  /**
+   * Directory name for data of the active profile, and of an account on it
+   * if given. Safe for any profile or account name.
+   */
+  scopedDirName(name: string, account?: string): string {
+    const key = this.scopedKey(name) + (account ? `:${account}` : '')
+    return key === name
+      ? name
+      : `${name}-${crypto.createHash('sha1').update(key).digest('hex').substring(0, 12)}`
+  }
+
+  private resolveActiveProfile(): ServerProfile {
+    const profiles = this.getProfiles()
+    const name = this.globalState.get<string>(ACTIVE_PROFILE_KEY)
+    return profiles.find((p) => p.name === name) ?? profiles[0]
+  }
+
+  private setActive(profile: ServerProfile) {
+    if (
+      profile.name === this.active.name &&
+      profile.baseUrl === this.active.baseUrl
+    ) {
+      return
+    }
+    console.log(`ACMOJ server profile: ${profile.name} (${profile.baseUrl})`)
+    this.active = profile
+    this._onDidChangeActiveProfile.fire(profile)
+  }
+
+  private updateStatusBar() {
+    // Only worth showing when there is something to switch to
+    if (this.getProfiles().length < 2) {
+      this.statusBarItem.hide()
+      return
+    }
+    this.statusBarItem.text = `$(server-environment) ${this.active.name}`
+    this.statusBarItem.tooltip = `ACMOJ server: ${this.active.baseUrl}. Click to switch.`
+    this.statusBarItem.show()
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose())
+  }
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode'
+import {
+  CompiledSolution,
+  OutputChecker,
+  RunResult,
+  runProcess,
+} from './localRunner'
+
+export interface StressTestPrograms {
+  solution: CompiledSolution
+  bruteForce: CompiledSolution
+  generator: CompiledSolution
+}
+
+/**
+ * The first input on which the solution disagreed with the brute force
+ */
+export interface StressTestFailure {
+  iteration: number
+  input: string
+  expected: RunResult // Output of the brute force
+  actual: RunResult // Output of the solution
+}
+
+/**
+ * Run the generator, the solution and the brute force in a loop until their
+ * outputs differ. The iteration number is passed to the generator as its
+ * only argument so it can be used as a random seed.
+ * @returns the failing case, or undefined if no difference was found within
+ * `maxIterations` iterations or the run was cancelled.
+ */
+export async function runStressTest(
+  programs: StressTestPrograms,
+  checker: OutputChecker,
+  maxIterations: number,
+  progress: vscode.Progress<{ message?: string; increment?: number }>,
+  token: vscode.CancellationToken,
+): Promise<StressTestFailure | undefined> {
+  const timeout = vscode.workspace
+    .getConfiguration('acmoj')
+    .get<number>('localRunTimeout', 5000)
+  const run = (program: CompiledSolution, input: string, args: string[] = []) =>
+    runProcess(
+      program.command,
+      [...program.args, ...args],
+      input,
+      timeout,
+      program.cwd,
+    )
+
+  for (let iteration = 1; iteration <= maxIterations; iteration++) {
+    if (token.isCancellationRequested) return undefined
+    progress.report({
+      message: `Iteration ${iteration}/${maxIterations}`,
+      increment: 100 / maxIterations,
+    })
+
+    const generated = await run(programs.generator, '', [`${iteration}`])
+    if (generated.timedOut || generated.exitCode !== 0) {
+      throw new Error(
+        `Generator failed on iteration ${iteration}: ${
+          generated.timedOut
+            ? 'timed out'
+            : generated.outputLimitExceeded
+              ? 'output limit exceeded'
+              : generated.stderr || `exit code ${generated.exitCode}`
+        }`,
+      )
+    }
+    const input = generated.stdout
+
+    const expected = await run(programs.bruteForce, input)
+    if (expected.timedOut || expected.exitCode !== 0) {
+      throw new Error(
+        `Brute force failed on iteration ${iteration}: ${
+          expected.timedOut
+            ? 'timed out'
+            : expected.outputLimitExceeded
+              ? 'output limit exceeded'
+              : expected.stderr || `exit code ${expected.exitCode}`
+        }`,
+      )
+    }
+
+    const actual = await run(programs.solution, input)
+    if (actual.timedOut || actual.exitCode !== 0) {
+      return { iteration, input, expected, actual }
+    }
+    const check = await checker(input, expected.stdout, actual.stdout)
+    if (check.checkerError) {
+      throw new Error(
+        `Checker failed on iteration ${iteration}: ${check.message}`,
+      )
+    }
+    if (!check.passed) {
+      return { iteration, input, expected, actual }
+    }
+  }
+  return undefined
+}
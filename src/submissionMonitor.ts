@@ -2,6 +2,31 @@ import * as vscode from 'vscode'
 import { ApiClient } from './api'
 import { SubmissionProvider } from './views/submissionProvider'
 import { Submission } from './types'
+import {
+  CompileDiagnosticsService,
+  SubmissionSource,
+} from './compileDiagnostics'
+import { getStatusInfo, isTerminalStatus } from './submissionStatus'
+import { AuthService } from './auth'
+
+const MONITORED_SUBMISSIONS_KEY = 'acmoj_monitored_submissions' // Key to persist the watch list in globalState, per account
+
+// Shape of a monitored submission in globalState
+interface PersistedSubmission {
+  id: number
+  status: string
+  source?: { uri: string; lineOffset: number }
+}
+
+/**
+ * Status of a monitored submission, reported whenever it is polled
+ */
+export interface SubmissionUpdate {
+  id: number
+  status: string
+  submission?: Submission // Undefined until the submission has been fetched
+  done: boolean // Whether monitoring of the submission has ended
+}
 
 /**
  * Submission monitoring service
@@ -9,14 +34,45 @@ import { Submission } from './types'
  */
 export class SubmissionMonitorService {
   private monitoredSubmissions: Map<number, string> = new Map()
+  private submissionSources: Map<number, SubmissionSource> = new Map() // Files the submissions came from
   private timer: NodeJS.Timeout | undefined
   private monitorInterval: number = 3000 // Default check interval: 3 seconds
   private maxAttempts: number = 40 // Maximum monitoring duration = interval * maxAttempts (about 2 minutes)
 
+  private configListener: vscode.Disposable
+
+  private _onDidUpdateSubmission = new vscode.EventEmitter<SubmissionUpdate>()
+  public readonly onDidUpdateSubmission = this._onDidUpdateSubmission.event
+
+  // Fired when all submissions are dropped, e.g. on switching servers
+  private _onDidReset = new vscode.EventEmitter<void>()
+  public readonly onDidReset = this._onDidReset.event
+
   constructor(
     private apiClient: ApiClient,
     private submissionProvider: SubmissionProvider,
+    private compileDiagnostics: CompileDiagnosticsService,
+    private globalState: vscode.Memento,
+    private authService: AuthService,
   ) {
+    this.loadConfiguration()
+    this.configListener = vscode.workspace.onDidChangeConfiguration((e) => {
+      if (
+        e.affectsConfiguration('acmoj.submissionMonitorInterval') ||
+        e.affectsConfiguration('acmoj.submissionMonitorTimeout')
+      ) {
+        this.loadConfiguration()
+        // Restart the timer with the new interval
+        if (this.timer) {
+          clearInterval(this.timer)
+          this.timer = undefined
+          this.start()
+        }
+      }
+    })
+  }
+
+  private loadConfiguration() {
     // Read monitoring interval from configuration
     const config = vscode.workspace.getConfiguration('acmoj')
     this.monitorInterval = config.get<number>('submissionMonitorInterval', 3000)
@@ -26,6 +82,57 @@ export class SubmissionMonitorService {
     this.maxAttempts = Math.ceil(timeout / this.monitorInterval)
   }
 
+  // Storage key of the watch list of the active account
+  private get watchKey(): string {
+    return this.authService.accountScopedKey(MONITORED_SUBMISSIONS_KEY)
+  }
+
+  /**
+   * Resume monitoring the submissions that were still being judged when the
+   * extension was last deactivated, or when the active account was last
+   * switched away from. Safe to call more than once.
+   */
+  resume() {
+    const persisted = this.globalState.get<PersistedSubmission[]>(
+      this.watchKey,
+      [],
+    )
+    for (const { id, status, source } of persisted) {
+      this.monitoredSubmissions.set(id, status)
+      this._onDidUpdateSubmission.fire({ id, status, done: false })
+      if (source) {
+        this.submissionSources.set(id, {
+          uri: vscode.Uri.parse(source.uri),
+          lineOffset: source.lineOffset,
+        })
+      }
+    }
+    if (this.monitoredSubmissions.size > 0) {
+      console.log(
+        `Resuming monitoring of ${this.monitoredSubmissions.size} submission(s)`,
+      )
+      this.start()
+    }
+  }
+
+  /**
+   * Save the watch list so it survives window reloads
+   */
+  private persist() {
+    const persisted: PersistedSubmission[] = []
+    for (const [id, status] of this.monitoredSubmissions) {
+      const source = this.submissionSources.get(id)
+      persisted.push({
+        id,
+        status,
+        source: source
+          ? { uri: source.uri.toString(), lineOffset: source.lineOffset }
+          : undefined,
+      })
+    }
+    this.globalState.update(this.watchKey, persisted)
+  }
+
   /**
    * Start the monitoring service
    */
@@ -51,16 +158,48 @@ export class SubmissionMonitorService {
       console.log('Submission monitor service stopped')
     }
     this.monitoredSubmissions.clear()
+    this.submissionSources.clear()
+    this.persist()
+  }
+
+  /**
+   * Stop monitoring the submissions of the previous server or account. Their
+   * watch list stays saved, so they are resumed when switching back.
+   */
+  reset() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+    this.monitoredSubmissions.clear()
+    this.submissionSources.clear()
+    this._onDidReset.fire()
   }
 
   /**
    * Add a submission to the monitoring list
+   * @param source the file the code was submitted from, to show compile
+   * errors on
    */
-  addSubmission(submissionId: number, initialStatus: string = 'Queued') {
+  addSubmission(
+    submissionId: number,
+    initialStatus: string = 'pending',
+    source?: SubmissionSource,
+  ) {
     console.log(
       `Adding submission #${submissionId} to monitor (${initialStatus})`,
     )
     this.monitoredSubmissions.set(submissionId, initialStatus)
+    this._onDidUpdateSubmission.fire({
+      id: submissionId,
+      status: initialStatus,
+      done: false,
+    })
+    if (source) {
+      this.submissionSources.set(submissionId, source)
+      this.compileDiagnostics.clear(source.uri) // Stale errors of the last submission
+    }
+    this.persist()
     this.start() // Ensure monitoring is started
   }
 
@@ -75,6 +214,7 @@ export class SubmissionMonitorService {
 
     let hasChanges = false
     const submissionsToRemove: number[] = []
+    const watchKey = this.watchKey
 
     for (const [
       submissionId,
@@ -86,6 +226,9 @@ export class SubmissionMonitorService {
 
         const submission =
           await this.apiClient.getSubmissionDetails(submissionId)
+        if (this.watchKey !== watchKey) {
+          return // Switched servers or accounts meanwhile, see reset()
+        }
         const currentStatus = submission.status
 
         // If the status has changed
@@ -99,12 +242,16 @@ export class SubmissionMonitorService {
           // Show notification
           this.showStatusChangeNotification(submissionId, submission)
 
+          if (currentStatus === 'compile_error') {
+            this.reportCompileError(submissionId, submission)
+          }
+
           // Clear submission list cache to ensure we get the latest data on refresh
           this.apiClient.getCacheService().deleteWithPrefix('submissions:')
         }
 
         // If the submission has been processed, remove from monitoring
-        if (this.isTerminalStatus(currentStatus)) {
+        if (isTerminalStatus(currentStatus)) {
           submissionsToRemove.push(submissionId)
         }
 
@@ -114,6 +261,13 @@ export class SubmissionMonitorService {
           submissionsToRemove.push(submissionId)
           console.log(`Submission #${submissionId} monitoring timed out`)
         }
+
+        this._onDidUpdateSubmission.fire({
+          id: submissionId,
+          status: currentStatus,
+          submission,
+          done: submissionsToRemove.includes(submissionId),
+        })
       } catch (error) {
         console.error(`Error checking submission #${submissionId}:`, error)
       }
@@ -122,6 +276,10 @@ export class SubmissionMonitorService {
     // Remove completed submissions
     for (const id of submissionsToRemove) {
       this.monitoredSubmissions.delete(id)
+      this.submissionSources.delete(id)
+    }
+    if (hasChanges || submissionsToRemove.length > 0) {
+      this.persist()
     }
 
     // If there are status changes, force refresh the submission list
@@ -133,26 +291,6 @@ export class SubmissionMonitorService {
     }
   }
 
-  /**
-   * Determine if the submission status is terminal (will not change further)
-   */
-  private isTerminalStatus(status: string): boolean {
-    const terminalStatuses = [
-      'Accepted',
-      'Wrong Answer',
-      'Time Limit Exceeded',
-      'Memory Limit Exceeded',
-      'Runtime Error',
-      'Compilation Error',
-      'System Error',
-      'Canceled',
-      'Aborted',
-      'Judged',
-      'Failed',
-    ]
-    return terminalStatuses.includes(status)
-  }
-
   /**
    * Show status change notification
    */
@@ -160,24 +298,10 @@ export class SubmissionMonitorService {
     submissionId: number,
     submission: Submission,
   ) {
-    const statusIconMap: Record<string, string> = {
-      Accepted: '$(check)',
-      'Wrong Answer': '$(x)',
-      'Time Limit Exceeded': '$(watch)',
-      'Memory Limit Exceeded': '$(database)',
-      'Runtime Error': '$(error)',
-      'Compilation Error': '$(tools)',
-      Queued: '$(history)',
-      Running: '$(sync)',
-      'System Error': '$(warning)',
-      Aborted: '$(stop)',
-      Canceled: '$(circle-slash)',
-    }
+    const { icon, label, terminal } = getStatusInfo(submission.status)
+    const message = `Submission #${submissionId} $(${icon}) ${label}`
 
-    const icon = statusIconMap[submission.status] || '$(question)'
-    const message = `Submission #${submissionId} ${icon} ${submission.status}`
-
-    if (this.isTerminalStatus(submission.status)) {
+    if (terminal) {
       // Show details button for terminal status
       vscode.window
         .showInformationMessage(message, 'View Details')
@@ -192,6 +316,38 @@ export class SubmissionMonitorService {
     }
   }
 
+  /**
+   * Show the compiler output of a submission as diagnostics on its file
+   */
+  private reportCompileError(submissionId: number, submission: Submission) {
+    const source = this.submissionSources.get(submissionId)
+    if (!source || !submission.message) return
+
+    const count = this.compileDiagnostics.report(source, submission.message)
+    if (count > 0) {
+      vscode.window
+        .showErrorMessage(
+          `Submission #${submissionId} failed to compile with ${count} problem(s) in ${vscode.workspace.asRelativePath(source.uri)}.`,
+          'Show Problems',
+        )
+        .then((selection) => {
+          if (selection === 'Show Problems') {
+            vscode.commands.executeCommand('workbench.actions.view.problems')
+          }
+        })
+    }
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = undefined
+    }
+    this.configListener.dispose()
+    this._onDidUpdateSubmission.dispose()
+    this._onDidReset.dispose()
+  }
+
   /**
    * Get monitoring attempt count (prevents infinite monitoring)
    */
@@ -0,0 +1,283 @@
+import * as vscode from 'vscode'
+import { ApiClient } from './api'
+import { SubmissionSource } from './compileDiagnostics'
+import {
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+  ValidationError,
+} from './errors'
+import { AuthService } from './auth'
+
+const QUEUED_SUBMISSIONS_KEY = 'acmoj_queued_submissions' // Key to persist the queue in globalState, per account
+const RETRY_DELAY = 30 * 1000 // First retry after a server error, doubled on each further error
+const MAX_RETRY_DELAY = 10 * 60 * 1000
+
+/**
+ * A submission made while offline, uploaded once the server is reachable
+ */
+export interface QueuedSubmission {
+  id: string // Local ID, the judge assigns the real one on upload
+  problemId: number
+  language: string
+  code: string // Snapshot of the code when it was queued
+  queuedAt: number
+  source?: { uri: string; lineOffset: number }
+}
+
+/**
+ * A queued submission that has been uploaded to the judge
+ */
+export interface FlushedSubmission {
+  queued: QueuedSubmission
+  submissionId: number
+  source?: SubmissionSource
+}
+
+/**
+ * Offline mode: holds submissions made while the server is unreachable,
+ * shows an indicator in the status bar and submits the queue once the
+ * connection is back.
+ */
+export class SubmissionQueueService implements vscode.Disposable {
+  private queue: QueuedSubmission[]
+  private queueKey: string // Storage key of the account the queue belongs to
+  private flushing: boolean = false
+  private uploadingId: string | undefined // Queued submission being uploaded right now
+  private retryTimer: NodeJS.Timeout | undefined // Retries the flush after a server error
+  private retryDelay: number = RETRY_DELAY
+  private statusBarItem: vscode.StatusBarItem
+  private disposables: vscode.Disposable[] = []
+
+  private _onDidChangeQueue = new vscode.EventEmitter<void>()
+  public readonly onDidChangeQueue = this._onDidChangeQueue.event
+
+  private _onDidFlushSubmission = new vscode.EventEmitter<FlushedSubmission>()
+  public readonly onDidFlushSubmission = this._onDidFlushSubmission.event
+
+  constructor(
+    private apiClient: ApiClient,
+    private globalState: vscode.Memento,
+    private authService: AuthService,
+  ) {
+    this.queueKey = authService.accountScopedKey(QUEUED_SUBMISSIONS_KEY)
+    this.queue = globalState.get<QueuedSubmission[]>(this.queueKey, [])
+
+    this.statusBarItem = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      98,
+    )
+    this.statusBarItem.command = 'acmojSubmissions.focus'
+
+    this.disposables.push(
+      this.statusBarItem,
+      this._onDidChangeQueue,
+      this._onDidFlushSubmission,
+      apiClient.onDidChangeConnectivity((online) => {
+        this.updateStatusBar()
+        if (online) this.flush()
+      }),
+      // Submissions queued for one server or account must not be sent by
+      // another
+      authService.onDidChangeProfile(() => this.reloadQueue()),
+    )
+    this.updateStatusBar()
+  }
+
+  getQueued(): readonly QueuedSubmission[] {
+    return this.queue
+  }
+
+  /**
+   * Queue a submission to be uploaded once the server is reachable
+   */
+  enqueue(
+    problemId: number,
+    language: string,
+    code: string,
+    source?: SubmissionSource,
+  ): QueuedSubmission {
+    const queued: QueuedSubmission = {
+      id: `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      problemId,
+      language,
+      code,
+      queuedAt: Date.now(),
+      source: source
+        ? { uri: source.uri.toString(), lineOffset: source.lineOffset }
+        : undefined,
+    }
+    this.queue.push(queued)
+    this.onQueueChanged()
+    return queued
+  }
+
+  /**
+   * Remove a submission from the queue before it is uploaded
+   * @returns whether the submission was still queued. It can no longer be
+   * cancelled once its upload has started.
+   */
+  cancel(id: string): boolean {
+    if (id === this.uploadingId) return false
+    const index = this.queue.findIndex((q) => q.id === id)
+    if (index < 0) return false
+    this.queue.splice(index, 1)
+    this.onQueueChanged()
+    return true
+  }
+
+  /**
+   * Upload the queued submissions in order. Stops at the first one that
+   * fails because the server went offline again, or when the server or
+   * account changes.
+   */
+  async flush(): Promise<void> {
+    if (this.flushing || this.queue.length === 0) return
+    this.flushing = true
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = undefined
+    }
+    const key = this.queueKey
+    try {
+      while (
+        this.queue.length > 0 &&
+        this.apiClient.isOnline() &&
+        this.queueKey === key
+      ) {
+        const queued = this.queue[0]
+        this.uploadingId = queued.id
+        try {
+          const result = await this.apiClient.submitCode(
+            queued.problemId,
+            queued.language,
+            queued.code,
+          )
+          this.retryDelay = RETRY_DELAY
+          this.remove(queued, key)
+          vscode.window.showInformationMessage(
+            `Queued submission for Problem ${queued.problemId} submitted. Submission ID: ${result.id}`,
+          )
+          // Only watch it if it belongs to the current account
+          if (this.queueKey !== key) break
+          this._onDidFlushSubmission.fire({
+            queued,
+            submissionId: result.id,
+            source: queued.source
+              ? {
+                  uri: vscode.Uri.parse(queued.source.uri),
+                  lineOffset: queued.source.lineOffset,
+                }
+              : undefined,
+          })
+        } catch (error: any) {
+          if (error instanceof ServerError || error instanceof RateLimitError) {
+            // Still online, so no connectivity change will flush it again
+            this.scheduleRetry(
+              error instanceof RateLimitError ? error.retryAfterMs : undefined,
+            )
+            break
+          }
+          if (error instanceof NetworkError && !error.connectionFailed) {
+            // Timed out or dropped, so resending it might submit it twice
+            this.remove(queued, key)
+            vscode.window.showWarningMessage(
+              `The connection was lost while sending the queued submission for Problem ${queued.problemId}. Check My Submissions before submitting it again.`,
+            )
+            break
+          }
+          if (
+            !(
+              error instanceof ValidationError ||
+              error instanceof NotFoundError ||
+              (error instanceof AuthError && error.status === 403)
+            )
+          ) {
+            break // Keep it queued, e.g. until the connection or token is fixed
+          }
+          // Rejected by the server, retrying would not help
+          this.remove(queued, key)
+          vscode.window.showErrorMessage(
+            `Queued submission for Problem ${queued.problemId} failed: ${error.message}`,
+          )
+        } finally {
+          this.uploadingId = undefined
+        }
+      }
+    } finally {
+      this.flushing = false
+    }
+    // The queue of the new server or account was not flushed meanwhile
+    if (this.queueKey !== key) this.flush()
+  }
+
+  private scheduleRetry(minDelay: number = 0) {
+    const delay = Math.max(this.retryDelay, minDelay)
+    this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY)
+    console.log(`Retrying queued submissions in ${delay / 1000}s`)
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined
+      this.flush()
+    }, delay)
+  }
+
+  /**
+   * Remove a submission from the queue stored under a key, which may belong
+   * to an account that is no longer active
+   */
+  private remove(queued: QueuedSubmission, key: string) {
+    if (key !== this.queueKey) {
+      const stored = this.globalState.get<QueuedSubmission[]>(key, [])
+      this.globalState.update(
+        key,
+        stored.filter((q) => q.id !== queued.id),
+      )
+      return
+    }
+    const index = this.queue.findIndex((q) => q.id === queued.id)
+    if (index >= 0) {
+      this.queue.splice(index, 1)
+      this.onQueueChanged()
+    }
+  }
+
+  private reloadQueue() {
+    const key = this.authService.accountScopedKey(QUEUED_SUBMISSIONS_KEY)
+    if (key === this.queueKey) return
+    this.queueKey = key
+    this.queue = this.globalState.get<QueuedSubmission[]>(key, [])
+    this.updateStatusBar()
+    this._onDidChangeQueue.fire()
+  }
+
+  private onQueueChanged() {
+    this.globalState.update(this.queueKey, this.queue)
+    this.updateStatusBar()
+    this._onDidChangeQueue.fire()
+  }
+
+  private updateStatusBar() {
+    const queued = this.queue.length
+    if (this.apiClient.isOnline() && queued === 0) {
+      this.statusBarItem.hide()
+      return
+    }
+    const queuedText = queued > 0 ? ` (${queued} queued)` : ''
+    if (this.apiClient.isOnline()) {
+      this.statusBarItem.text = `$(cloud-upload) ACMOJ${queuedText}`
+      this.statusBarItem.tooltip = `Uploading ${queued} queued submission(s)`
+    } else {
+      this.statusBarItem.text = `$(debug-disconnect) ACMOJ: Offline${queuedText}`
+      this.statusBarItem.tooltip =
+        'The ACMOJ server cannot be reached. Submissions are queued and sent automatically once the connection is back.'
+    }
+    this.statusBarItem.show()
+  }
+
+  dispose() {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    this.disposables.forEach((d) => d.dispose())
+  }
+}
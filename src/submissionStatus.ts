@@ -0,0 +1,146 @@
+import * as vscode from 'vscode'
+import { SubmissionStatus } from './types'
+
+export interface SubmissionStatusInfo {
+  label: string // Human-readable name, e.g. 'Wrong Answer'
+  icon: string // Codicon ID
+  color?: string // Theme color ID
+  terminal: boolean // Whether the status can no longer change
+}
+
+const STATUS_INFO: Record<SubmissionStatus, SubmissionStatusInfo> = {
+  accepted: {
+    label: 'Accepted',
+    icon: 'check',
+    color: 'testing.iconPassed',
+    terminal: true,
+  },
+  wrong_answer: {
+    label: 'Wrong Answer',
+    icon: 'error',
+    color: 'testing.iconFailed',
+    terminal: true,
+  },
+  compile_error: {
+    label: 'Compile Error',
+    icon: 'warning',
+    color: 'testing.iconErrored',
+    terminal: true,
+  },
+  runtime_error: {
+    label: 'Runtime Error',
+    icon: 'error',
+    color: 'testing.iconFailed',
+    terminal: true,
+  },
+  time_limit_exceeded: {
+    label: 'Time Limit Exceeded',
+    icon: 'clock',
+    color: 'testing.iconSkipped',
+    terminal: true,
+  },
+  memory_limit_exceeded: {
+    label: 'Memory Limit Exceeded',
+    icon: 'clock',
+    color: 'testing.iconSkipped',
+    terminal: true,
+  },
+  disk_limit_exceeded: {
+    label: 'Disk Limit Exceeded',
+    icon: 'clock',
+    color: 'testing.iconSkipped',
+    terminal: true,
+  },
+  memory_leak: {
+    label: 'Memory Leak',
+    icon: 'error',
+    color: 'testing.iconErrored',
+    terminal: true,
+  },
+  pending: { label: 'Pending', icon: 'sync~spin', terminal: false },
+  compiling: { label: 'Compiling', icon: 'sync~spin', terminal: false },
+  judging: { label: 'Judging', icon: 'sync~spin', terminal: false },
+  void: {
+    label: 'Void',
+    icon: 'circle-slash',
+    color: 'testing.iconSkipped',
+    terminal: true,
+  },
+  aborted: {
+    label: 'Aborted',
+    icon: 'circle-slash',
+    color: 'testing.iconSkipped',
+    terminal: true,
+  },
+  skipped: {
+    label: 'Skipped',
+    icon: 'circle-slash',
+    color: 'testing.iconSkipped',
+    terminal: true,
+  },
+  system_error: {
+    label: 'System Error',
+    icon: 'error',
+    color: 'testing.iconFailed',
+    terminal: true,
+  },
+  bad_problem: {
+    label: 'Bad Problem',
+    icon: 'error',
+    color: 'testing.iconFailed',
+    terminal: true,
+  },
+  unknown_error: {
+    label: 'Unknown Error',
+    icon: 'error',
+    color: 'testing.iconFailed',
+    terminal: true,
+  },
+}
+
+/**
+ * Get the display metadata of a status. Statuses the extension does not know
+ * about are shown as-is and treated as non-terminal.
+ */
+export function getStatusInfo(status: string): SubmissionStatusInfo {
+  return (
+    STATUS_INFO[status.toLowerCase() as SubmissionStatus] ?? {
+      label: status,
+      icon: 'question',
+      terminal: false,
+    }
+  )
+}
+
+/**
+ * All statuses the extension knows about, e.g. to filter submissions by
+ */
+export function getKnownStatuses(): SubmissionStatus[] {
+  return Object.keys(STATUS_INFO) as SubmissionStatus[]
+}
+
+/**
+ * Determine if the submission status is terminal (will not change further)
+ */
+export function isTerminalStatus(status: string): boolean {
+  return getStatusInfo(status).terminal
+}
+
+/**
+ * Get the tree/status bar icon of a status
+ */
+export function getStatusThemeIcon(status: string): vscode.ThemeIcon {
+  const { icon, color } = getStatusInfo(status)
+  return new vscode.ThemeIcon(
+    icon,
+    color ? new vscode.ThemeColor(color) : undefined,
+  )
+}
+
+/**
+ * Get the CSS color of a status for use in webviews
+ */
+export function getStatusCssColor(status: string): string | undefined {
+  const { color } = getStatusInfo(status)
+  return color ? `var(--vscode-${color.replace(/\./g, '-')})` : undefined
+}
@@ -0,0 +1,546 @@
+import * as vscode from 'vscode'
+import * as fs from 'fs/promises'
+import * as path from 'path'
+import { ApiClient } from './api'
+import { AuthService } from './auth'
+import {
+  CompilationError,
+  CompiledSolution,
+  ResourceLimits,
+  TestCase,
+  TestCaseResult,
+  compileSolution,
+  formatLimits,
+  formatUsage,
+  getLocalLanguageForFile,
+  getProblemExamples,
+  getProblemLimits,
+  runTestCases,
+} from './localRunner'
+import { parseProblemIdHeader } from './problemHeader'
+import { createChecker, getCheckerConfig } from './checker'
+import {
+  CUSTOM_TESTS_GLOB,
+  getProblemIdFromTestUri,
+  loadCustomTests,
+} from './customTests'
+
+const SOURCE_GLOB = '**/*.{cpp,cc,cxx,c,py,java}'
+
+/**
+ * Exposes the examples of problems as tests in the Test Explorer.
+ * Every workspace file with an `acmoj: <id>` header becomes a test item,
+ * with one child per example of the problem.
+ */
+export class AcmojTestController implements vscode.Disposable {
+  private controller: vscode.TestController
+  private disposables: vscode.Disposable[] = []
+  // Problem ID of each file item and test case of each example item
+  private fileProblemIds = new WeakMap<vscode.TestItem, number>()
+  private fileLimits = new WeakMap<vscode.TestItem, ResourceLimits>()
+  private exampleCases = new WeakMap<vscode.TestItem, TestCase>()
+
+  constructor(
+    private apiClient: ApiClient,
+    private authService: AuthService,
+  ) {
+    this.controller = vscode.tests.createTestController(
+      'acmojExamples',
+      'ACMOJ Examples',
+    )
+    this.controller.resolveHandler = async (item) => {
+      if (!item) {
+        await this.discoverWorkspaceFiles()
+      } else {
+        await this.resolveExamples(item)
+      }
+    }
+    this.controller.refreshHandler = async () => {
+      this.controller.items.replace([])
+      await this.discoverWorkspaceFiles()
+    }
+    this.controller.createRunProfile(
+      'Run Examples',
+      vscode.TestRunProfileKind.Run,
+      (request, token) => this.runHandler(request, token),
+      true,
+    )
+    this.controller.createRunProfile(
+      'Debug Example',
+      vscode.TestRunProfileKind.Debug,
+      (request, token) => this.debugHandler(request, token),
+      true,
+    )
+
+    const watcher = vscode.workspace.createFileSystemWatcher(SOURCE_GLOB)
+    watcher.onDidCreate((uri) => this.updateFile(uri))
+    watcher.onDidChange((uri) => this.updateFile(uri))
+    watcher.onDidDelete((uri) => this.controller.items.delete(uri.toString()))
+
+    // Custom tests of a problem changed: rebuild the items of its files
+    const customTestsWatcher =
+      vscode.workspace.createFileSystemWatcher(CUSTOM_TESTS_GLOB)
+    const onCustomTestsChange = (uri: vscode.Uri) => {
+      const problemId = getProblemIdFromTestUri(uri)
+      this.controller.items.forEach((item) => {
+        if (this.fileProblemIds.get(item) === problemId) {
+          this.resolveExamples(item)
+        }
+      })
+    }
+    customTestsWatcher.onDidCreate(onCustomTestsChange)
+    customTestsWatcher.onDidChange(onCustomTestsChange)
+    customTestsWatcher.onDidDelete(onCustomTestsChange)
+
+    this.disposables.push(
+      this.controller,
+      watcher,
+      customTestsWatcher,
+      vscode.workspace.onDidOpenTextDocument((doc) => this.updateFile(doc.uri)),
+      vscode.workspace.onDidSaveTextDocument((doc) => this.updateFile(doc.uri)),
+      authService.onDidChangeLoginStatus(() => {
+        // Examples could not be fetched while logged out, so fetch them again
+        this.controller.items.forEach((item) => {
+          item.children.replace([])
+          item.canResolveChildren = true
+        })
+      }),
+    )
+
+    // Discover eagerly so gutter icons show up without opening the explorer
+    this.discoverWorkspaceFiles().catch((error) =>
+      console.error('Failed to discover ACMOJ test files:', error),
+    )
+  }
+
+  private async discoverWorkspaceFiles(): Promise<void> {
+    const files = await vscode.workspace.findFiles(
+      SOURCE_GLOB,
+      '**/node_modules/**',
+    )
+    await Promise.all(files.map((uri) => this.updateFile(uri)))
+  }
+
+  /**
+   * Add, update or remove the test item of a file depending on its header
+   */
+  private async updateFile(uri: vscode.Uri): Promise<void> {
+    if (uri.scheme !== 'file' || !getLocalLanguageForFile(uri.fsPath)) {
+      return
+    }
+
+    let problemId: number | undefined
+    try {
+      const content = await vscode.workspace.fs.readFile(uri)
+      const firstLine = Buffer.from(content).toString('utf8').split('\n')[0]
+      problemId = parseProblemIdHeader(firstLine)
+    } catch (error) {
+      console.warn(`Failed to read ${uri.fsPath}:`, error)
+    }
+
+    const id = uri.toString()
+    const existing = this.controller.items.get(id)
+    if (problemId === undefined) {
+      this.controller.items.delete(id)
+      return
+    }
+    if (existing && this.fileProblemIds.get(existing) === problemId) {
+      return
+    }
+
+    const item = this.controller.createTestItem(
+      id,
+      `${vscode.workspace.asRelativePath(uri)} (P${problemId})`,
+      uri,
+    )
+    item.range = new vscode.Range(0, 0, 0, 0) // Gutter icon on the header line
+    item.canResolveChildren = true
+    this.fileProblemIds.set(item, problemId)
+    this.controller.items.add(item)
+  }
+
+  /**
+   * Create one child item per example and custom test of the file's problem
+   */
+  private async resolveExamples(item: vscode.TestItem): Promise<void> {
+    const problemId = this.fileProblemIds.get(item)
+    if (problemId === undefined) return
+
+    if (!this.authService.isLoggedIn()) {
+      item.error = 'Please login to ACMOJ to load the examples.'
+      return
+    }
+
+    item.busy = true
+    try {
+      const problem = await this.apiClient.getProblemDetails(problemId)
+      const examples = getProblemExamples(problem)
+      this.fileLimits.set(item, getProblemLimits(problem))
+      const customTests = await loadCustomTests(problemId)
+      const children = examples.map((testCase, i) => {
+        const child = this.controller.createTestItem(
+          `${item.id}#example-${i}`,
+          testCase.name,
+          item.uri,
+        )
+        this.exampleCases.set(child, testCase)
+        return child
+      })
+      for (const testCase of customTests) {
+        const child = this.controller.createTestItem(
+          `${item.id}#custom-${testCase.name}`,
+          `${testCase.name} (custom)`,
+          testCase.inputUri,
+        )
+        this.exampleCases.set(child, testCase)
+        children.push(child)
+      }
+      item.children.replace(children)
+      item.error =
+        children.length === 0
+          ? 'No examples or custom tests provided.'
+          : undefined
+    } catch (error: any) {
+      item.error = `Failed to load examples: ${error.message}`
+    } finally {
+      item.busy = false
+    }
+  }
+
+  /**
+   * Group the requested examples by the file they belong to
+   */
+  private async collectExamples(
+    request: vscode.TestRunRequest,
+  ): Promise<Map<vscode.TestItem, Set<vscode.TestItem>>> {
+    const queue = new Map<vscode.TestItem, Set<vscode.TestItem>>()
+    const roots: vscode.TestItem[] = []
+    if (request.include) {
+      roots.push(...request.include)
+    } else {
+      this.controller.items.forEach((item) => roots.push(item))
+    }
+
+    for (const item of roots) {
+      const fileItem = item.parent ?? item
+      if (request.exclude?.includes(fileItem)) continue
+      if (!item.parent && item.canResolveChildren) {
+        await this.resolveExamples(item)
+      }
+      const examples = item.parent ? [item] : this.childrenOf(item)
+      const pending = queue.get(fileItem) ?? new Set()
+      examples
+        .filter((child) => !request.exclude?.includes(child))
+        .forEach((child) => pending.add(child))
+      queue.set(fileItem, pending)
+    }
+    return queue
+  }
+
+  private async runHandler(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request)
+    const queue = await this.collectExamples(request)
+
+    for (const [fileItem, examples] of queue) {
+      if (token.isCancellationRequested) break
+      examples.forEach((example) => run.enqueued(example))
+      await this.runFile(run, fileItem, [...examples], token)
+    }
+
+    run.end()
+  }
+
+  private async runFile(
+    run: vscode.TestRun,
+    fileItem: vscode.TestItem,
+    examples: vscode.TestItem[],
+    token: vscode.CancellationToken,
+  ): Promise<void> {
+    const language =
+      fileItem.uri && getLocalLanguageForFile(fileItem.uri.fsPath)
+    if (!fileItem.uri || !language || examples.length === 0) return
+
+    await saveIfDirty(fileItem.uri)
+
+    const problemId = this.fileProblemIds.get(fileItem)!
+    const checker = createChecker(getCheckerConfig(problemId))
+    const limits = this.fileLimits.get(fileItem)
+
+    let solution
+    try {
+      solution = await compileSolution(fileItem.uri.fsPath, language)
+    } catch (error: any) {
+      const message = new vscode.TestMessage(
+        error instanceof CompilationError ? error.output : error.message,
+      )
+      examples.forEach((example) => run.errored(example, message))
+      return
+    }
+
+    try {
+      for (const example of examples) {
+        if (token.isCancellationRequested) {
+          run.skipped(example)
+          continue
+        }
+        const testCase = this.exampleCases.get(example)
+        if (!testCase) continue
+
+        run.started(example)
+        const [result] = await runTestCases(solution, [testCase], {
+          limits,
+          checker,
+        })
+        this.reportResult(run, example, result, limits)
+      }
+    } catch (error: any) {
+      examples.forEach((example) =>
+        run.errored(example, new vscode.TestMessage(error.message)),
+      )
+    } finally {
+      await solution.dispose()
+    }
+  }
+
+  private reportResult(
+    run: vscode.TestRun,
+    example: vscode.TestItem,
+    result: TestCaseResult,
+    limits: ResourceLimits | undefined,
+  ) {
+    const { run: output, testCase } = result
+    if (output.stderr) {
+      run.appendOutput(
+        output.stderr.replace(/\r?\n/g, '\r\n'),
+        undefined,
+        example,
+      )
+    }
+
+    if (result.passed) {
+      run.passed(example, output.timeMs)
+    } else if (result.limitExceeded && limits) {
+      run.failed(
+        example,
+        new vscode.TestMessage(
+          `Likely ${result.limitExceeded} limit exceeded: used ${formatUsage(output)}, limits are ${formatLimits(limits)}.`,
+        ),
+        output.timeMs,
+      )
+    } else if (output.timedOut) {
+      run.failed(
+        example,
+        new vscode.TestMessage('Time limit exceeded.'),
+        output.timeMs,
+      )
+    } else if (output.outputLimitExceeded) {
+      run.failed(
+        example,
+        new vscode.TestMessage('Output limit exceeded.'),
+        output.timeMs,
+      )
+    } else if (result.checkerError) {
+      run.errored(
+        example,
+        new vscode.TestMessage(result.checkerMessage ?? 'Checker failed.'),
+        output.timeMs,
+      )
+    } else if (output.exitCode !== 0) {
+      run.failed(
+        example,
+        new vscode.TestMessage(
+          `Runtime error (${output.signal || `exit code ${output.exitCode}`}).`,
+        ),
+        output.timeMs,
+      )
+    } else {
+      run.failed(
+        example,
+        vscode.TestMessage.diff(
+          result.checkerMessage ?? 'Output differs from the expected output.',
+          testCase.output ?? '',
+          output.stdout,
+        ),
+        output.timeMs,
+      )
+    }
+  }
+
+  /**
+   * Debug the first requested example of a C/C++ solution with the example
+   * as stdin, then report whether it passes. Needs the C/C++ extension.
+   */
+  private async debugHandler(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request)
+    try {
+      const queue = await this.collectExamples(request)
+      const requested = [...queue].flatMap(([fileItem, examples]) =>
+        [...examples].map((example) => ({ fileItem, example })),
+      )
+      if (requested.length === 0) return
+      // Only one debug session at a time makes sense
+      requested.slice(1).forEach(({ example }) => run.skipped(example))
+      await this.debugExample(
+        run,
+        requested[0].fileItem,
+        requested[0].example,
+        token,
+      )
+    } finally {
+      run.end()
+    }
+  }
+
+  private async debugExample(
+    run: vscode.TestRun,
+    fileItem: vscode.TestItem,
+    example: vscode.TestItem,
+    token: vscode.CancellationToken,
+  ): Promise<void> {
+    const language =
+      fileItem.uri && getLocalLanguageForFile(fileItem.uri.fsPath)
+    const testCase = this.exampleCases.get(example)
+    if (!fileItem.uri || !language || !testCase) return
+    if (language !== 'cpp' && language !== 'c') {
+      run.errored(
+        example,
+        new vscode.TestMessage(
+          'Debugging examples is only supported for C and C++ solutions.',
+        ),
+      )
+      return
+    }
+
+    await saveIfDirty(fileItem.uri)
+    const problemId = this.fileProblemIds.get(fileItem)!
+    const limits = this.fileLimits.get(fileItem)
+
+    let solution
+    try {
+      solution = await compileSolution(fileItem.uri.fsPath, language, {
+        debug: true,
+      })
+    } catch (error: any) {
+      run.errored(
+        example,
+        new vscode.TestMessage(
+          error instanceof CompilationError ? error.output : error.message,
+        ),
+      )
+      return
+    }
+
+    try {
+      run.started(example)
+      const inputFile = path.join(solution.cwd, 'input.txt')
+      await fs.writeFile(inputFile, testCase.input)
+      await this.startDebugSession(
+        solution,
+        inputFile,
+        `Debug ${example.label}`,
+        vscode.workspace.getWorkspaceFolder(fileItem.uri),
+        token,
+      )
+      if (token.isCancellationRequested) {
+        run.skipped(example)
+        return
+      }
+
+      // The debugger does not capture the output, so run it once more
+      const [result] = await runTestCases(solution, [testCase], {
+        limits,
+        checker: createChecker(getCheckerConfig(problemId)),
+      })
+      this.reportResult(run, example, result, limits)
+    } catch (error: any) {
+      run.errored(example, new vscode.TestMessage(error.message))
+    } finally {
+      await solution.dispose()
+    }
+  }
+
+  /**
+   * Launch the solution under gdb with the input redirected
+   * from a file. Resolves once the session has ended.
+   */
+  private async startDebugSession(
+    solution: CompiledSolution,
+    inputFile: string,
+    name: string,
+    folder: vscode.WorkspaceFolder | undefined,
+    token: vscode.CancellationToken,
+  ): Promise<void> {
+    // Tells our session apart from other debug sessions
+    const debugId = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`
+    const isOurs = (session: vscode.DebugSession) =>
+      session.configuration.acmojDebugId === debugId
+
+    let session: vscode.DebugSession | undefined
+    const listeners: vscode.Disposable[] = []
+    const ended = new Promise<void>((resolve) => {
+      listeners.push(
+        vscode.debug.onDidStartDebugSession((s) => {
+          if (isOurs(s)) session = s
+        }),
+        vscode.debug.onDidTerminateDebugSession((s) => {
+          if (isOurs(s)) resolve()
+        }),
+        token.onCancellationRequested(() => {
+          if (session) vscode.debug.stopDebugging(session)
+          resolve()
+        }),
+      )
+    })
+
+    try {
+      const started = await vscode.debug.startDebugging(folder, {
+        type: 'cppdbg',
+        request: 'launch',
+        name,
+        program: solution.command,
+        // gdb starts the program through a shell, which redirects stdin.
+        // lldb would pass '<' as an argument, so it is not used.
+        args: ['<', inputFile],
+        cwd: solution.cwd,
+        stopAtEntry: false,
+        externalConsole: false,
+        MIMode: 'gdb',
+        acmojDebugId: debugId,
+      })
+      if (!started) {
+        throw new Error(
+          'Could not start the debugger. Debugging needs gdb and the C/C++ extension (ms-vscode.cpptools).',
+        )
+      }
+      await ended
+    } finally {
+      listeners.forEach((d) => d.dispose())
+    }
+  }
+
+  private childrenOf(item: vscode.TestItem): vscode.TestItem[] {
+    const children: vscode.TestItem[] = []
+    item.children.forEach((child) => children.push(child))
+    return children
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose())
+  }
+}
+
+// Compile what is on disk, not a stale version of the file
+async function saveIfDirty(uri: vscode.Uri): Promise<void> {
+  const openDocument = vscode.workspace.textDocuments.find(
+    (doc) => doc.uri.toString() === uri.toString(),
+  )
+  if (openDocument?.isDirty) {
+    await openDocument.save()
+  }
+}
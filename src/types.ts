@@ -22,6 +22,8 @@ export interface Problem {
   example_output: string | null // old version example
   data_range: string | null
   languages_accepted: string[] | null
+  time_limit_msecs?: number | null // per testpoint
+  memory_limit_bytes?: number | null // per testpoint
   // TODO: ... more fields, I do not care about it now
 }
 
@@ -92,6 +94,22 @@ export interface CourseBrief {
   name: string
 }
 
+export interface Term {
+  id: number
+  name: string
+  start_time: string // ISO date string
+  end_time: string // ISO date string
+}
+
+export interface Course extends CourseBrief {
+  description: string | null
+  tag: string | null
+  term: Term | null
+  problemsets?: Problemset[] | null // Not returned by the list endpoint
+  url: string
+  html_url: string
+}
+
 export type ProblemsetType = 'contest' | 'homework' | 'exam'
 
 export interface Problemset {
@@ -0,0 +1,231 @@
+import * as vscode from 'vscode'
+import { ApiClient } from '../api'
+import { Course, CourseBrief, Problemset } from '../types'
+import { AuthService } from '../auth'
+import { ProblemBriefTreeItem, ProblemsetTreeItem } from './problemsetProvider'
+
+const MAX_COURSES = 500 // Courses looked at in the course list
+
+type CourseViewItem =
+  | CourseTreeItem
+  | CourseProblemsetTreeItem
+  | ProblemBriefTreeItem
+  | vscode.TreeItem
+
+/**
+ * Courses of the current term and of the user's problemsets, each with its
+ * problemsets
+ */
+export class CourseProvider implements vscode.TreeDataProvider<CourseViewItem> {
+  private _onDidChangeTreeData: vscode.EventEmitter<
+    CourseViewItem | undefined | null | void
+  > = new vscode.EventEmitter<CourseViewItem | undefined | null | void>()
+  readonly onDidChangeTreeData: vscode.Event<
+    CourseViewItem | undefined | null | void
+  > = this._onDidChangeTreeData.event
+
+  private userProblemsets: Problemset[] | null = null // Loaded with the root
+
+  constructor(
+    private apiClient: ApiClient,
+    private authService: AuthService,
+  ) {
+    authService.onDidChangeLoginStatus(() => this.refresh())
+  }
+
+  refresh(): void {
+    this.userProblemsets = null
+    this._onDidChangeTreeData.fire()
+  }
+
+  getTreeItem(element: CourseViewItem): vscode.TreeItem {
+    return element
+  }
+
+  async getChildren(element?: CourseViewItem): Promise<CourseViewItem[]> {
+    if (!this.authService.isLoggedIn()) {
+      return [
+        new vscode.TreeItem(
+          'Please set token to view courses',
+          vscode.TreeItemCollapsibleState.None,
+        ),
+      ]
+    }
+
+    try {
+      if (!element) {
+        return await this.getCourseItems()
+      }
+      if (element instanceof CourseTreeItem) {
+        return await this.getProblemsetItems(element)
+      }
+      if (element instanceof CourseProblemsetTreeItem) {
+        const details = await this.apiClient.getProblemsetDetails(
+          element.problemset.id,
+        )
+        const problems = [...(details.problems ?? [])].sort(
+          (a, b) => a.id - b.id,
+        )
+        if (problems.length === 0) {
+          return [
+            new vscode.TreeItem(
+              'No problems found in this problemset.',
+              vscode.TreeItemCollapsibleState.None,
+            ),
+          ]
+        }
+        return problems.map(
+          (p) => new ProblemBriefTreeItem(p, element.problemset.id),
+        )
+      }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(`Failed to load courses: ${error.message}`)
+      return [
+        new vscode.TreeItem(
+          `Error: ${error.message}`,
+          vscode.TreeItemCollapsibleState.None,
+        ),
+      ]
+    }
+    return []
+  }
+
+  private async getCourseItems(): Promise<CourseViewItem[]> {
+    const { problemsets } = await this.apiClient.getUserProblemsets()
+    this.userProblemsets = problemsets
+
+    // Courses the user takes part in, then the other courses of this term
+    const courses: Map<number, CourseBrief | Course> = new Map()
+    for (const ps of problemsets) {
+      if (ps.course && !courses.has(ps.course.id)) {
+        courses.set(ps.course.id, ps.course)
+      }
+    }
+    let allCourses: Course[] = []
+    try {
+      allCourses = await this.apiClient.getAllCourses(MAX_COURSES)
+    } catch (error: any) {
+      // The user's own courses can still be shown
+      console.warn('Failed to load the course list:', error)
+    }
+    for (const course of allCourses) {
+      if (isCurrentCourse(course) || courses.has(course.id)) {
+        courses.set(course.id, course)
+      }
+    }
+
+    const items: CourseViewItem[] = [...courses.values()].map(
+      (course) =>
+        new CourseTreeItem(
+          course,
+          problemsets.some((ps) => ps.course?.id === course.id),
+        ),
+    )
+    items.sort((a, b) => {
+      const x = a as CourseTreeItem
+      const y = b as CourseTreeItem
+      return (
+        Number(y.joined) - Number(x.joined) ||
+        x.course.name.localeCompare(y.course.name)
+      )
+    })
+
+    if (problemsets.some((ps) => !ps.course)) {
+      items.push(
+        new CourseTreeItem({ id: 0, name: 'Other Problemsets' }, true, true),
+      )
+    }
+    if (items.length === 0) {
+      return [
+        new vscode.TreeItem(
+          'No courses found.',
+          vscode.TreeItemCollapsibleState.None,
+        ),
+      ]
+    }
+    return items
+  }
+
+  private async getProblemsetItems(
+    element: CourseTreeItem,
+  ): Promise<CourseViewItem[]> {
+    if (this.userProblemsets === null) {
+      this.userProblemsets = (
+        await this.apiClient.getUserProblemsets()
+      ).problemsets
+    }
+    const joinedIds = new Set(this.userProblemsets.map((ps) => ps.id))
+
+    let problemsets: Problemset[]
+    if (element.isOther) {
+      problemsets = this.userProblemsets.filter((ps) => !ps.course)
+    } else {
+      const details = await this.apiClient.getCourseDetails(element.course.id)
+      problemsets = [
+        ...this.userProblemsets.filter(
+          (ps) => ps.course?.id === element.course.id,
+        ),
+        ...(details.problemsets ?? []).filter((ps) => !joinedIds.has(ps.id)),
+      ]
+    }
+
+    if (problemsets.length === 0) {
+      return [
+        new vscode.TreeItem(
+          'No problemsets found in this course.',
+          vscode.TreeItemCollapsibleState.None,
+        ),
+      ]
+    }
+    // Most recent first
+    problemsets.sort(
+      (a, b) =>
+        new Date(b.start_time).getTime() - new Date(a.start_time).getTime(),
+    )
+    return problemsets.map(
+      (ps) => new CourseProblemsetTreeItem(ps, joinedIds.has(ps.id)),
+    )
+  }
+}
+
+export class CourseTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly course: CourseBrief | Course,
+    public readonly joined: boolean, // Whether the user is in any problemset of it
+    public readonly isOther: boolean = false, // Problemsets without a course
+  ) {
+    super(course.name, vscode.TreeItemCollapsibleState.Collapsed)
+    this.id = isOther ? 'course-other' : `course-${course.id}`
+    this.iconPath = new vscode.ThemeIcon(isOther ? 'folder' : 'mortar-board')
+
+    const details = course as Partial<Course>
+    const tooltip = [course.name]
+    if (details.term) tooltip.push(`Term: ${details.term.name}`)
+    if (details.tag) tooltip.push(`Tag: ${details.tag}`)
+    if (details.description) tooltip.push('', details.description)
+    this.tooltip = tooltip.join('\n')
+    this.description = isOther
+      ? ''
+      : [details.term?.name, joined ? 'joined' : ''].filter(Boolean).join(' · ')
+  }
+}
+
+// A problemset in the Courses view, which may not be joined yet
+export class CourseProblemsetTreeItem extends ProblemsetTreeItem {
+  constructor(problemset: Problemset, joined: boolean) {
+    super(problemset, joined)
+    this.description = `(${problemset.type})${joined ? ' · joined' : ''}`
+    this.iconPath = new vscode.ThemeIcon(joined ? 'pass' : 'circle-outline')
+  }
+}
+
+/**
+ * Whether the term of a course is in progress
+ */
+export function isCurrentCourse(course: Course, now: number = Date.now()) {
+  return (
+    !!course.term &&
+    new Date(course.term.start_time).getTime() <= now &&
+    now < new Date(course.term.end_time).getTime()
+  )
+}
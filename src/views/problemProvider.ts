@@ -1,18 +1,44 @@
 import * as vscode from 'vscode'
-import { ApiClient } from '../api'
+import { ApiClient, parseCursor } from '../api'
 import { ProblemBrief } from '../types'
 import { AuthService } from '../auth'
 
+/**
+ * Problemset the All Problems view is filtered by
+ */
+export interface ProblemsetFilter {
+  id: number
+  name: string
+}
+
+type ProblemViewItem = ProblemTreeItem | LoadMoreTreeItem | vscode.TreeItem
+
+/**
+ * All problems on the server, optionally filtered by a keyword and a
+ * problemset. Further pages are loaded from the "Load More" item at the end.
+ */
 export class ProblemProvider
-  implements vscode.TreeDataProvider<ProblemTreeItem>
+  implements vscode.TreeDataProvider<ProblemViewItem>
 {
   private _onDidChangeTreeData: vscode.EventEmitter<
-    ProblemTreeItem | undefined | null | void
-  > = new vscode.EventEmitter<ProblemTreeItem | undefined | null | void>()
+    ProblemViewItem | undefined | null | void
+  > = new vscode.EventEmitter<ProblemViewItem | undefined | null | void>()
   readonly onDidChangeTreeData: vscode.Event<
-    ProblemTreeItem | undefined | null | void
+    ProblemViewItem | undefined | null | void
   > = this._onDidChangeTreeData.event
 
+  private _onDidChangeFilter = new vscode.EventEmitter<void>()
+  public readonly onDidChangeFilter = this._onDidChangeFilter.event
+
+  private keyword: string | undefined
+  private problemset: ProblemsetFilter | undefined
+
+  private problems: ProblemBrief[] = [] // Pages loaded so far
+  private nextCursor: string | undefined // Cursor of the next page to load
+  private loaded: boolean = false // Whether the first page has been loaded
+  private loading: Promise<void> | undefined
+  private generation: number = 0 // Incremented on refresh, to drop pages loaded before
+
   constructor(
     private apiClient: ApiClient,
     private authService: AuthService,
@@ -20,45 +46,147 @@ export class ProblemProvider
     authService.onDidChangeLoginStatus(() => this.refresh())
   }
 
+  /**
+   * Reload the problems from the first page
+   */
   refresh(): void {
+    this.generation++
+    this.problems = []
+    this.nextCursor = undefined
+    this.loaded = false
+    this._onDidChangeTreeData.fire()
+  }
+
+  getKeyword(): string | undefined {
+    return this.keyword
+  }
+
+  getProblemset(): ProblemsetFilter | undefined {
+    return this.problemset
+  }
+
+  /**
+   * Only show problems matching a keyword, or all problems if empty
+   */
+  setKeyword(keyword: string | undefined): void {
+    this.keyword = keyword?.trim() || undefined
+    this.onFilterChanged()
+  }
+
+  /**
+   * Only show problems of a problemset, or of all problemsets if undefined
+   */
+  setProblemset(problemset: ProblemsetFilter | undefined): void {
+    this.problemset = problemset
+    this.onFilterChanged()
+  }
+
+  clearFilter(): void {
+    this.keyword = undefined
+    this.problemset = undefined
+    this.onFilterChanged()
+  }
+
+  /**
+   * Summary of the active filters, e.g. for the view description
+   */
+  describeFilter(): string | undefined {
+    const parts: string[] = []
+    if (this.keyword) parts.push(`"${this.keyword}"`)
+    if (this.problemset) parts.push(this.problemset.name)
+    return parts.length > 0 ? parts.join(' in ') : undefined
+  }
+
+  private onFilterChanged() {
+    vscode.commands.executeCommand(
+      'setContext',
+      'acmoj.problemsFiltered',
+      !!(this.keyword || this.problemset),
+    )
+    this._onDidChangeFilter.fire()
+    this.refresh()
+  }
+
+  /**
+   * Append the next page of problems
+   */
+  async loadMore(): Promise<void> {
+    if (!this.nextCursor) return
+    await this.loadPage(this.nextCursor)
     this._onDidChangeTreeData.fire()
   }
 
-  getTreeItem(element: ProblemTreeItem): vscode.TreeItem {
+  private loadPage(cursor?: string): Promise<void> {
+    // Clicking "Load More" twice must not load the same page twice
+    if (!this.loading) {
+      const generation = this.generation
+      this.loading = this.apiClient
+        .getProblems(cursor, this.keyword, this.problemset?.id)
+        .then(({ problems, next }) => {
+          if (generation !== this.generation) {
+            return // Refreshed meanwhile, e.g. because the filter changed
+          }
+          this.problems.push(...problems)
+          this.nextCursor = parseCursor(next)
+          this.loaded = true
+        })
+        .finally(() => (this.loading = undefined))
+    }
+    return this.loading
+  }
+
+  getTreeItem(element: ProblemViewItem): vscode.TreeItem {
     return element
   }
 
-  async getChildren(element?: ProblemTreeItem): Promise<ProblemTreeItem[]> {
+  async getChildren(element?: ProblemViewItem): Promise<ProblemViewItem[]> {
     if (!this.authService.isLoggedIn()) {
       return [
         new vscode.TreeItem(
           'Please login to view problems',
           vscode.TreeItemCollapsibleState.None,
-        ) as ProblemTreeItem,
+        ),
       ]
     }
 
     if (element) {
-      // simple implementation: no children
-      return []
-    } else {
-      try {
-        // toy implementation: get the first page of problems
-        const { problems } = await this.apiClient.getProblems()
-        return problems.map((p) => new ProblemTreeItem(p))
-        // TODO: implement pagination
-      } catch (error: any) {
-        vscode.window.showErrorMessage(
-          `Failed to load problems: ${error.message}`,
-        )
-        return [
-          new vscode.TreeItem(
-            `Error: ${error.message}`,
-            vscode.TreeItemCollapsibleState.None,
-          ) as ProblemTreeItem,
-        ]
+      return [] // Problems have no children
+    }
+
+    try {
+      while (!this.loaded) {
+        await this.loadPage()
       }
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to load problems: ${error.message}`,
+      )
+      return [
+        new vscode.TreeItem(
+          `Error: ${error.message}`,
+          vscode.TreeItemCollapsibleState.None,
+        ),
+      ]
     }
+
+    if (this.problems.length === 0) {
+      return [
+        new vscode.TreeItem(
+          this.describeFilter()
+            ? 'No problems match the filter.'
+            : 'No problems found.',
+          vscode.TreeItemCollapsibleState.None,
+        ),
+      ]
+    }
+
+    const items: ProblemViewItem[] = this.problems.map(
+      (p) => new ProblemTreeItem(p),
+    )
+    if (this.nextCursor) {
+      items.push(new LoadMoreTreeItem(this.problems.length))
+    }
+    return items
   }
 }
 
@@ -72,6 +200,8 @@ export class ProblemTreeItem extends vscode.TreeItem {
     this.description = problem.title ? '' : 'Not published or no permission'
 
     this.id = `problem-${this.problem.id}`
+    this.iconPath = new vscode.ThemeIcon('file-code')
+    this.contextValue = 'problem'
 
     if (problem.id) {
       this.command = {
@@ -82,3 +212,17 @@ export class ProblemTreeItem extends vscode.TreeItem {
     }
   }
 }
+
+// Loads the next page of the All Problems view
+export class LoadMoreTreeItem extends vscode.TreeItem {
+  constructor(loadedCount: number) {
+    super('Load More...', vscode.TreeItemCollapsibleState.None)
+    this.id = `problems-load-more-${loadedCount}`
+    this.description = `${loadedCount} loaded`
+    this.iconPath = new vscode.ThemeIcon('fold-down')
+    this.command = {
+      command: 'acmoj.loadMoreProblems',
+      title: 'Load More Problems',
+    }
+  }
+}
@@ -2,6 +2,15 @@ import * as vscode from 'vscode'
 import { ApiClient } from '../api'
 import { Problemset, ProblemBrief } from '../types'
 import { AuthService } from '../auth'
+import {
+  ProblemStatus,
+  ProblemStatusService,
+  describeProblemStatus,
+  getProblemStatusIcon,
+} from '../problemStatus'
+import { describeDeadline, getNextDeadline } from '../deadlines'
+
+const COUNTDOWN_INTERVAL = 60 * 1000 // Update the deadline countdowns every minute
 
 type AcmojTreeItem =
   | CategoryTreeItem
@@ -10,7 +19,7 @@ type AcmojTreeItem =
   | vscode.TreeItem
 
 export class ProblemsetProvider
-  implements vscode.TreeDataProvider<AcmojTreeItem>
+  implements vscode.TreeDataProvider<AcmojTreeItem>, vscode.Disposable
 {
   private _onDidChangeTreeData: vscode.EventEmitter<
     AcmojTreeItem | undefined | null | void
@@ -20,21 +29,97 @@ export class ProblemsetProvider
   > = this._onDidChangeTreeData.event
 
   private allProblemsets: Problemset[] | null = null
+  private problemsetsStaleSince: Date | undefined // Set when showing an offline copy
   private problemsetCache: Map<number, Problemset> = new Map() // Keep cache for details
+  private solvedCounts: Map<number, SolvedCount> = new Map() // By problemset ID
+  private problemStatuses: Map<number, Map<number, ProblemStatus>> = new Map() // By problemset ID, then problem ID
+  private loadingStatuses: Set<number> = new Set() // Problemsets whose statuses were loaded, or tried to, in this refresh
+  private showsCountdown: boolean = false // Whether an expanded category shows a deadline countdown
+  private countdownTimer: NodeJS.Timeout
 
   constructor(
     private apiClient: ApiClient,
     private authService: AuthService,
+    private problemStatus: ProblemStatusService,
   ) {
     authService.onDidChangeLoginStatus(() => this.refresh())
+    problemStatus.onDidChangeStatus(() => {
+      this.solvedCounts.clear()
+      this.problemStatuses.clear()
+      this.loadingStatuses.clear()
+      this._onDidChangeTreeData.fire() // Redraw, the problemsets are unchanged
+    })
+    // Redrawing also moves problemsets whose deadline passed to 'Passed'
+    this.countdownTimer = setInterval(() => {
+      if (this.showsCountdown) this._onDidChangeTreeData.fire()
+    }, COUNTDOWN_INTERVAL)
   }
 
   refresh(): void {
     this.allProblemsets = null // Clear the full list cache
+    this.problemsetsStaleSince = undefined
     this.problemsetCache.clear() // Clear details cache
+    this.solvedCounts.clear()
+    this.problemStatuses.clear()
+    this.loadingStatuses.clear()
     this._onDidChangeTreeData.fire()
   }
 
+  /**
+   * Load the problem statuses of problemsets in the background, then redraw
+   * the element showing them. Each problemset is only tried once per refresh.
+   */
+  private loadStatuses(problemsets: Problemset[], element: AcmojTreeItem) {
+    const pending = problemsets.filter((ps) => !this.loadingStatuses.has(ps.id))
+    if (pending.length === 0 || !this.problemStatus.isEnabled()) return
+    pending.forEach((ps) => this.loadingStatuses.add(ps.id))
+
+    Promise.all(
+      pending.map(async (ps) => {
+        let details = this.problemsetCache.get(ps.id)
+        if (!details?.problems) {
+          details = await this.apiClient.getProblemsetDetails(ps.id)
+          this.problemsetCache.set(ps.id, details)
+        }
+        const problems = details.problems ?? []
+        const statuses = await this.problemStatus.getStatuses(
+          problems.map((p) => p.id),
+        )
+        this.problemStatuses.set(ps.id, statuses)
+        this.solvedCounts.set(ps.id, {
+          solved: [...statuses.values()].filter((s) => s.state === 'solved')
+            .length,
+          total: problems.length,
+        })
+      }),
+    )
+      .catch((error) => console.warn('Failed to load problem statuses:', error))
+      .finally(() => {
+        if (element instanceof ProblemsetTreeItem) {
+          this.describeProblemset(element)
+        }
+        this._onDidChangeTreeData.fire(element)
+      })
+  }
+
+  /**
+   * Describe a problemset by its type, the time left until its deadline and
+   * the number of problems solved, e.g. '(homework) · 5h 20m left · solved 2/4'
+   */
+  private describeProblemset(item: ProblemsetTreeItem, now: Date = new Date()) {
+    const parts = [`(${item.problemset.type})`]
+    const deadline = getNextDeadline(item.problemset, now)
+    if (deadline && now >= new Date(item.problemset.start_time)) {
+      parts.push(describeDeadline(deadline, now))
+      this.showsCountdown = true
+    }
+    const count = this.solvedCounts.get(item.problemset.id)
+    if (count && count.total > 0) {
+      parts.push(`solved ${count.solved}/${count.total}`)
+    }
+    item.description = parts.join(' · ')
+  }
+
   getTreeItem(element: AcmojTreeItem): vscode.TreeItem {
     return element
   }
@@ -51,11 +136,13 @@ export class ProblemsetProvider
 
     // Root level: Return the categories
     if (!element) {
+      this.showsCountdown = false // Until an expanded category shows one again
       // Fetch all problemsets if not already fetched in this cycle
       if (this.allProblemsets === null) {
         try {
-          const { problemsets } = await this.apiClient.getUserProblemsets()
-          this.allProblemsets = problemsets
+          const response = await this.apiClient.getUserProblemsets()
+          this.allProblemsets = response.problemsets
+          this.problemsetsStaleSince = this.apiClient.getStaleSince(response)
         } catch (error: any) {
           vscode.window.showErrorMessage(
             `Failed to load problemsets: ${error.message}`,
@@ -71,6 +158,9 @@ export class ProblemsetProvider
       }
       // Return the static category nodes
       return [
+        ...(this.problemsetsStaleSince
+          ? [new OfflineTreeItem(this.problemsetsStaleSince)]
+          : []),
         new CategoryTreeItem('Ongoing', 'ongoing'),
         new CategoryTreeItem('Upcoming', 'upcoming'),
         new CategoryTreeItem('Passed', 'passed'),
@@ -150,7 +240,15 @@ export class ProblemsetProvider
         ]
       }
 
-      return categoryProblemsets.map((ps) => new ProblemsetTreeItem(ps))
+      // Upcoming problemsets cannot have been solved yet
+      if (element.categoryType !== 'upcoming') {
+        this.loadStatuses(categoryProblemsets, element)
+      }
+      return categoryProblemsets.map((ps) => {
+        const item = new ProblemsetTreeItem(ps)
+        this.describeProblemset(item, now)
+        return item
+      })
     }
 
     // Problemset level: Return problems within the problemset
@@ -177,6 +275,11 @@ export class ProblemsetProvider
 
           const result: AcmojTreeItem[] = []
 
+          const staleSince = this.apiClient.getStaleSince(problemsetDetails)
+          if (staleSince) {
+            result.push(new OfflineTreeItem(staleSince))
+          }
+
           // Add description as multiple line items
           if (problemsetDetails.description) {
             const descriptionLines = this.splitTextIntoLines(
@@ -206,10 +309,22 @@ export class ProblemsetProvider
             )
           }
 
-          // Add the problems after the description
+          // Add the problems after the description, with their statuses
+          // once loaded
+          const showStatus = this.problemStatus.isEnabled()
+          const statuses = this.problemStatuses.get(element.problemset.id)
+          if (showStatus && !statuses) {
+            this.loadStatuses([problemsetDetails], element)
+          }
           result.push(
             ...problemsetDetails.problems.map(
-              (p) => new ProblemBriefTreeItem(p, element.problemset.id),
+              (p) =>
+                new ProblemBriefTreeItem(
+                  p,
+                  element.problemset.id,
+                  false,
+                  showStatus ? statuses?.get(p.id) : undefined,
+                ),
             ),
           )
 
@@ -248,6 +363,11 @@ export class ProblemsetProvider
     return []
   }
 
+  dispose() {
+    clearInterval(this.countdownTimer)
+    this._onDidChangeTreeData.dispose()
+  }
+
   // Helper function to split text into lines and remove markdown formatting
   private splitTextIntoLines(text: string): string[] {
     // Remove markdown formatting
@@ -271,6 +391,12 @@ export class ProblemsetProvider
 
 type ProblemsetCategory = 'upcoming' | 'ongoing' | 'passed'
 
+// Problems of a problemset the user has solved
+interface SolvedCount {
+  solved: number
+  total: number
+}
+
 class CategoryTreeItem extends vscode.TreeItem {
   constructor(
     public readonly label: string,
@@ -296,24 +422,43 @@ class CategoryTreeItem extends vscode.TreeItem {
 
 // Represents a Problemset in the TreeView
 export class ProblemsetTreeItem extends vscode.TreeItem {
-  constructor(public readonly problemset: Problemset) {
+  /**
+   * @param joined whether the user is a member, which decides if it can be
+   * joined or quit from the context menu
+   */
+  constructor(
+    public readonly problemset: Problemset,
+    public readonly joined: boolean = true,
+  ) {
     super(
       problemset.name || `Problemset ${problemset.id}`,
       // Problemsets are expandable to show problems
       vscode.TreeItemCollapsibleState.Collapsed,
     )
     this.tooltip = `${problemset.name}\nType: ${problemset.type}\nStarts: ${new Date(problemset.start_time).toLocaleString()}\nEnds: ${new Date(problemset.end_time).toLocaleString()}`
+    if (problemset.late_submission_deadline) {
+      this.tooltip += `\nLate submission until: ${new Date(problemset.late_submission_deadline).toLocaleString()}`
+    }
     this.description = `(${problemset.type})`
     this.id = `problemset-${problemset.id}`
+    if (joined && problemset.quit_url) {
+      this.contextValue = 'problemset-joined'
+    } else if (!joined && problemset.join_url) {
+      this.contextValue = 'problemset-joinable'
+    }
   }
 }
 
 // Represents a Problem Brief within a Problemset (renamed from ProblemTreeItem)
 export class ProblemBriefTreeItem extends vscode.TreeItem {
+  /**
+   * @param status whether the user solved or attempted the problem, if known
+   */
   constructor(
     public readonly problem: ProblemBrief,
     public readonly problemsetId?: number,
     public readonly isFirstLine: boolean = false,
+    status?: ProblemStatus,
   ) {
     super(
       `${problem.id}: ${problem.title || '(Title Unavailable)'}`,
@@ -321,6 +466,10 @@ export class ProblemBriefTreeItem extends vscode.TreeItem {
     )
     this.tooltip = `Problem ${problem.id}`
     this.description = problem.title ? '' : 'Not published or no permission'
+    if (status && problem.title) {
+      this.iconPath = getProblemStatusIcon(status)
+      this.description = describeProblemStatus(status)
+    }
     // Create a unique ID by combining problemset ID with problem ID
     this.id = problemsetId
       ? `problemset-${problemsetId}-problem-${problem.id}`
@@ -331,10 +480,25 @@ export class ProblemBriefTreeItem extends vscode.TreeItem {
         title: 'View Problem',
         arguments: [problem.id], // Pass problem ID
       }
+      this.contextValue = 'problem'
     }
   }
 }
 
+// Marks the data below it as an offline copy
+class OfflineTreeItem extends vscode.TreeItem {
+  constructor(staleSince: Date) {
+    super('Offline: showing cached data', vscode.TreeItemCollapsibleState.None)
+    this.description = `from ${staleSince.toLocaleString()}`
+    this.tooltip =
+      'The server could not be reached. Refresh to try again once you are back online.'
+    this.iconPath = new vscode.ThemeIcon(
+      'warning',
+      new vscode.ThemeColor('list.warningForeground'),
+    )
+  }
+}
+
 // Represents a description of a problemset
 export class ProblemsetBriefTreeItem extends vscode.TreeItem {
   constructor(
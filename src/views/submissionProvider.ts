@@ -1,10 +1,19 @@
 import * as vscode from 'vscode'
-import { ApiClient } from '../api'
+import { ApiClient, SubmissionFilter, parseCursor } from '../api'
 import { SubmissionBrief, SubmissionStatus } from '../types'
 import { AuthService } from '../auth'
+import { QueuedSubmission, SubmissionQueueService } from '../submissionQueue'
+import {
+  getStatusInfo,
+  getStatusThemeIcon,
+  isTerminalStatus,
+} from '../submissionStatus'
 
 // Union type for tree items
-export type SubmissionViewItem = SubmissionTreeItem | NavigationTreeItem
+export type SubmissionViewItem =
+  | SubmissionTreeItem
+  | QueuedSubmissionTreeItem
+  | NavigationTreeItem
 
 export class SubmissionProvider
   implements vscode.TreeDataProvider<SubmissionViewItem>
@@ -20,12 +29,18 @@ export class SubmissionProvider
   private previousCursors: string[] = []
   private hasNextPage: boolean = false
   private nextPageCursor: string | undefined = undefined // New variable to store the next page cursor
+  private filter: SubmissionFilter = {} // Problem, verdict and language to show submissions of
+
+  private _onDidChangeFilter = new vscode.EventEmitter<void>()
+  public readonly onDidChangeFilter = this._onDidChangeFilter.event
 
   constructor(
     private apiClient: ApiClient,
     private authService: AuthService,
+    private submissionQueue: SubmissionQueueService,
   ) {
     authService.onDidChangeLoginStatus(() => this.refresh())
+    submissionQueue.onDidChangeQueue(() => this.refresh())
   }
 
   refresh(): void {
@@ -40,6 +55,53 @@ export class SubmissionProvider
     this.refresh()
   }
 
+  getFilter(): SubmissionFilter {
+    return { ...this.filter }
+  }
+
+  /**
+   * Only show submissions matching the filter, starting from the first page.
+   * The username is always the logged-in user's.
+   */
+  setFilter(filter: SubmissionFilter): void {
+    this.filter = {
+      problemId: filter.problemId || undefined,
+      status: filter.status || undefined,
+      lang: filter.lang || undefined,
+    }
+    vscode.commands.executeCommand(
+      'setContext',
+      'acmoj.submissionsFiltered',
+      !!this.describeFilter(),
+    )
+    this._onDidChangeFilter.fire()
+    this.resetPagination()
+  }
+
+  clearFilter(): void {
+    this.setFilter({})
+  }
+
+  /**
+   * Summary of the active filter, e.g. 'Problem 1001 · Wrong Answer · cpp'
+   */
+  describeFilter(): string | undefined {
+    const parts: string[] = []
+    if (this.filter.problemId) parts.push(`Problem ${this.filter.problemId}`)
+    if (this.filter.status) parts.push(getStatusInfo(this.filter.status).label)
+    if (this.filter.lang) parts.push(this.filter.lang)
+    return parts.length > 0 ? parts.join(' · ') : undefined
+  }
+
+  // Whether a queued submission would match the filter once judged
+  private matchesFilter(queued: QueuedSubmission): boolean {
+    return (
+      !this.filter.status &&
+      (!this.filter.problemId || queued.problemId === this.filter.problemId) &&
+      (!this.filter.lang || queued.language === this.filter.lang)
+    )
+  }
+
   // Navigate to next page
   nextPage(): void {
     if (this.hasNextPage && this.nextPageCursor) {
@@ -87,6 +149,12 @@ export class SubmissionProvider
     if (element) {
       return []
     } else {
+      // Submissions waiting for the connection come first
+      const queued = this.submissionQueue
+        .getQueued()
+        .filter((q) => this.matchesFilter(q))
+        .map((q) => new QueuedSubmissionTreeItem(q))
+
       try {
         // Get the current page of submissions
         const profile = await this.apiClient.getUserProfile()
@@ -96,26 +164,36 @@ export class SubmissionProvider
         const { submissions, next } = await this.apiClient.getSubmissions(
           this.currentCursor,
           username,
+          this.filter.problemId,
+          this.filter.status,
+          this.filter.lang,
         )
 
         for (const submission of submissions) {
-          if (
-            submission.status === 'pending' ||
-            submission.status === 'compiling' ||
-            submission.status === 'judging'
-          ) {
+          if (!isTerminalStatus(submission.status)) {
             this.apiClient.expireSubmissionCache(submission.id)
           }
         }
 
-        this.nextPageCursor = next
-          ? new URLSearchParams(next).get('cursor') || undefined
-          : undefined
+        this.nextPageCursor = parseCursor(next)
         this.hasNextPage = Boolean(this.nextPageCursor)
 
         const result: SubmissionViewItem[] = submissions.map(
           (s) => new SubmissionTreeItem(s),
         )
+        if (
+          submissions.length === 0 &&
+          queued.length === 0 &&
+          this.describeFilter()
+        ) {
+          result.push(
+            new SubmissionTreeItem(
+              {} as SubmissionBrief,
+              'No submissions match the filter.',
+            ),
+          )
+        }
+        result.unshift(...queued)
 
         if (this.previousCursors.length > 0) {
           result.unshift(
@@ -142,6 +220,7 @@ export class SubmissionProvider
           `Failed to load submissions: ${error.message}`,
         )
         return [
+          ...queued,
           new SubmissionTreeItem(
             {} as SubmissionBrief,
             `Error: ${error.message}`,
@@ -193,6 +272,22 @@ export class NavigationTreeItem extends vscode.TreeItem {
   }
 }
 
+// A submission made while offline that has not been uploaded yet
+export class QueuedSubmissionTreeItem extends vscode.TreeItem {
+  constructor(public readonly queued: QueuedSubmission) {
+    super(
+      `Queued - Problem ${queued.problemId}`,
+      vscode.TreeItemCollapsibleState.None,
+    )
+    const date = new Date(queued.queuedAt).toLocaleString()
+    this.description = `Waiting for connection (${queued.language}) - ${date}`
+    this.tooltip = `Queued submission for Problem ${queued.problemId}\nLanguage: ${queued.language}\nQueued: ${date}\nIt will be submitted automatically once ACMOJ is reachable.`
+    this.id = `queued-submission-${queued.id}`
+    this.iconPath = new vscode.ThemeIcon('cloud-upload')
+    this.contextValue = 'queued-submission'
+  }
+}
+
 export class SubmissionTreeItem extends vscode.TreeItem {
   constructor(
     public readonly submission: SubmissionBrief,
@@ -213,8 +308,9 @@ export class SubmissionTreeItem extends vscode.TreeItem {
       vscode.TreeItemCollapsibleState.None,
     )
 
-    this.description = `${submission.status} (${submission.language}) - ${date}`
-    this.tooltip = `Submission ${submission.id}\nStatus: ${submission.status}\nLanguage: ${submission.language}\nTime: ${date}`
+    const statusLabel = getStatusInfo(submission.status).label
+    this.description = `${statusLabel} (${submission.language}) - ${date}`
+    this.tooltip = `Submission ${submission.id}\nStatus: ${statusLabel}\nLanguage: ${submission.language}\nTime: ${date}`
 
     this.id = `submission-${this.submission.id}`
 
@@ -230,51 +326,6 @@ export class SubmissionTreeItem extends vscode.TreeItem {
   }
 
   static getIconForStatus(status: SubmissionStatus): vscode.ThemeIcon {
-    switch (status) {
-      case 'accepted':
-        return new vscode.ThemeIcon(
-          'check',
-          new vscode.ThemeColor('testing.iconPassed'),
-        )
-      case 'wrong_answer':
-      case 'runtime_error':
-      case 'bad_problem':
-      case 'unknown_error':
-      case 'system_error':
-        return new vscode.ThemeIcon(
-          'error',
-          new vscode.ThemeColor('testing.iconFailed'),
-        )
-      case 'memory_leak':
-        return new vscode.ThemeIcon(
-          'error',
-          new vscode.ThemeColor('testing.iconErrored'),
-        )
-      case 'compile_error':
-        return new vscode.ThemeIcon(
-          'warning',
-          new vscode.ThemeColor('testing.iconErrored'),
-        )
-      case 'time_limit_exceeded':
-      case 'memory_limit_exceeded':
-      case 'disk_limit_exceeded':
-        return new vscode.ThemeIcon(
-          'clock',
-          new vscode.ThemeColor('testing.iconSkipped'),
-        )
-      case 'pending':
-      case 'compiling':
-      case 'judging':
-        return new vscode.ThemeIcon('sync~spin')
-      case 'aborted':
-      case 'void':
-      case 'skipped':
-        return new vscode.ThemeIcon(
-          'circle-slash',
-          new vscode.ThemeColor('testing.iconSkipped'),
-        )
-      default:
-        return new vscode.ThemeIcon('question')
-    }
+    return getStatusThemeIcon(status)
   }
 }
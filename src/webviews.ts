@@ -3,6 +3,14 @@ import { ApiClient } from './api'
 import { Problem, Submission } from './types'
 import MarkdownIt from 'markdown-it'
 import katexPlugin from '@vscode/markdown-it-katex'
+import {
+  CustomTestCase,
+  getCustomTestsDir,
+  loadCustomTests,
+} from './customTests'
+import { formatLimits, getProblemLimits } from './localRunner'
+import { getStatusCssColor, getStatusInfo } from './submissionStatus'
+import { NotFoundError } from './errors'
 
 const problemPanels: Map<number, vscode.WebviewPanel> = new Map()
 const submissionPanels: Map<number, vscode.WebviewPanel> = new Map()
@@ -61,11 +69,28 @@ export async function showProblemDetails(
   try {
     const problem = await apiClient.getProblemDetails(problemId)
     panel.title = `Problem ${problem.id}: ${problem.title}`
-    panel.webview.html = getProblemHtml(
-      problem,
-      panel.webview,
-      context.extensionUri,
-    )
+    const render = async () => {
+      panel.webview.html = getProblemHtml(
+        problem,
+        await loadCustomTests(problemId),
+        panel.webview,
+        context.extensionUri,
+        apiClient.getStaleSince(problem),
+      )
+    }
+    await render()
+
+    // Re-render when the custom tests of this problem change on disk
+    const customTestsDir = getCustomTestsDir(problemId)
+    if (customTestsDir) {
+      const watcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(customTestsDir, '*.{in,out}'),
+      )
+      watcher.onDidCreate(render)
+      watcher.onDidChange(render)
+      watcher.onDidDelete(render)
+      panel.onDidDispose(() => watcher.dispose())
+    }
 
     panel.webview.onDidReceiveMessage(
       async (message) => {
@@ -99,12 +124,39 @@ export async function showProblemDetails(
               )
             }
             return
+
+          case 'addCustomTest':
+            vscode.commands.executeCommand('acmoj.addCustomTest', problemId)
+            return
+
+          case 'editCustomTest':
+            vscode.commands.executeCommand(
+              'acmoj.editCustomTest',
+              problemId,
+              message.name,
+            )
+            return
+
+          case 'deleteCustomTest':
+            vscode.commands.executeCommand(
+              'acmoj.deleteCustomTest',
+              problemId,
+              message.name,
+            )
+            return
         }
       },
       undefined,
       context.subscriptions,
     )
   } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      panel.dispose()
+      vscode.window.showErrorMessage(
+        `Problem ${problemId} not found, or you do not have access to it.`,
+      )
+      return
+    }
     panel.webview.html = getWebviewContent(
       `Error loading problem ${problemId}: ${error.message}`,
       panel.webview,
@@ -233,6 +285,11 @@ export async function showSubmissionDetails(
       context.subscriptions,
     )
   } catch (error: any) {
+    if (error instanceof NotFoundError) {
+      panel.dispose()
+      vscode.window.showErrorMessage(`Submission #${submissionId} not found.`)
+      return
+    }
     panel.webview.html = getWebviewContent(
       `Error loading submission ${submissionId}: ${error.message}`,
       panel.webview,
@@ -390,6 +447,12 @@ function getWebviewContent(
         /* Other Styles */
         .section { margin-bottom: 2em; }
         .label { font-weight: bold; min-width: 100px; display: inline-block;}
+        .stale-banner {
+            padding: 0.5em 1em;
+            margin-bottom: 1em;
+            border-left: 4px solid var(--vscode-editorWarning-foreground);
+            background-color: var(--vscode-inputValidation-warningBackground);
+        }
         button {
             background-color: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
@@ -405,10 +468,6 @@ function getWebviewContent(
         button:focus {
             outline: 1px solid var(--vscode-focusBorder);
         }
-        /* Status colors */
-        .status-accepted { color: var(--vscode-testing-iconPassed); }
-        .status-error { color: var(--vscode-testing-iconFailed); }
-        
         /* KaTeX specific styles */
         .katex {
              font-size: 1.2em; /* Slightly larger math font */
@@ -431,8 +490,10 @@ function getWebviewContent(
  */
 function getProblemHtml(
   problem: Problem,
+  customTests: CustomTestCase[],
   webview: vscode.Webview,
   extensionUri: vscode.Uri,
+  staleSince?: Date,
 ): string {
   const descriptionHtml = md.render(
     problem.description || '*No description provided.*',
@@ -444,6 +505,7 @@ function getProblemHtml(
   const dataRangeHtml = md.render(
     problem.data_range || '*No data range specified.*',
   )
+  const limitsText = formatLimits(getProblemLimits(problem))
 
   let examplesHtml = ''
   if (problem.examples && problem.examples.length > 0) {
@@ -506,9 +568,40 @@ function getProblemHtml(
           `
   }
 
+  const customTestsHtml = customTests
+    .map(
+      (test) => `
+              <div class="example-container">
+                <div class="example-header">
+                  <h4>${escapeHtml(test.name)}</h4>
+                  <div class="copy-buttons">
+                    <button class="copy-btn edit-custom-test" data-name="${escapeHtml(test.name)}" title="Open the test files in the editor">✎ Edit</button>
+                    <button class="copy-btn delete-custom-test" data-name="${escapeHtml(test.name)}" title="Delete this test case">✕ Delete</button>
+                  </div>
+                </div>
+                <h5>Input:</h5><pre><code>${escapeHtml(test.input)}</code></pre>
+                ${
+                  test.output !== null
+                    ? `<h5>Expected Output:</h5><pre><code>${escapeHtml(
+                        test.output,
+                      )}</code></pre>`
+                    : ''
+                }
+              </div>
+          `,
+    )
+    .join('')
+
   var scriptNonce = getNonce()
 
+  const staleHtml = staleSince
+    ? `<div class="stale-banner">Offline: showing a cached copy from ${escapeHtml(
+        staleSince.toLocaleString(),
+      )}. Reopen the problem to try again once you are back online.</div>`
+    : ''
+
   const content = `
+          ${staleHtml}
           <h1>${problem.id}: ${escapeHtml(problem.title)}</h1>
           <!--<button id="submit-button">Submit Code for this Problem</button>-->
   
@@ -531,12 +624,27 @@ function getProblemHtml(
               <h2>Examples</h2>
               ${examplesHtml || '*No examples provided.*'}
           </div>
+
+          <div class="section">
+              <h2>Custom Tests</h2>
+              <button id="add-custom-test-button">Add Test Case</button>
+              ${customTestsHtml || '<p>No custom test cases yet. They are stored in <code>.acmoj/tests/' + problem.id + '/</code>.</p>'}
+          </div>
   
            <div class="section">
               <h2>Data Range</h2>
               <div>${dataRangeHtml}</div>
           </div>
   
+           ${
+             limitsText
+               ? `<div class="section">
+              <h2>Limits</h2>
+              <div>${escapeHtml(limitsText)}</div>
+          </div>`
+               : ''
+           }
+
            <div class="section">
               <h2>Accepted Languages</h2>
               <div>${
@@ -568,6 +676,24 @@ function getProblemHtml(
                           content: content
                       });
                   }
+
+                  if (target.id === 'add-custom-test-button') {
+                      vscode.postMessage({ command: 'addCustomTest' });
+                  }
+
+                  if (target.classList.contains('edit-custom-test')) {
+                      vscode.postMessage({
+                          command: 'editCustomTest',
+                          name: target.getAttribute('data-name')
+                      });
+                  }
+
+                  if (target.classList.contains('delete-custom-test')) {
+                      vscode.postMessage({
+                          command: 'deleteCustomTest',
+                          name: target.getAttribute('data-name')
+                      });
+                  }
               });
           </script>
       `
@@ -620,9 +746,6 @@ function getSubmissionHtml(
   webview: vscode.Webview,
   extensionUri: vscode.Uri,
 ): string {
-  const statusClass = `status-${submission.status
-    .toLowerCase()
-    .replace(/_/g, '-')}`
   const abortButtonHtml = submission.abort_url
     ? `<button id="abort-button">Abort Submission</button>`
     : ''
@@ -660,9 +783,9 @@ function getSubmissionHtml(
               submission.problem?.id
             }: ${problemTitleHtml}</p>
             <p><span class="label">User:</span> ${friendlyNameHtml}</p>
-            <p><span class="label">Status:</span> <strong class="${statusClass}">${
-              submission.status
-            }</strong></p>
+            <p><span class="label">Status:</span> <strong>${formatStatus(
+              submission.status,
+            )}</strong></p>
             ${
               submission.should_show_score && submission.score !== null
                 ? `<p><span class="label">Score:</span> ${submission.score}</p>`
@@ -783,14 +906,6 @@ function getSubmissionHtml(
     .group-title {
       font-weight: bold;
     }
-    /* Status colors */
-    .status-accepted { color: var(--vscode-testing-iconPassed, #2cbb4b); }
-    .status-wrong-answer, .status-runtime-error, .status-time-limit-exceeded, 
-    .status-memory-limit-exceeded, .status-failed { 
-      color: var(--vscode-testing-iconFailed, #f14c4c); 
-    }
-    .status-partial { color: var(--vscode-charts-yellow, #e2b73d); }
-    
     /* Button Styling */
     #open-in-editor-button {
       display: block;
@@ -801,6 +916,15 @@ function getSubmissionHtml(
   )
 }
 
+/**
+ * Formats a submission or testpoint status as a colored label
+ */
+function formatStatus(status: string): string {
+  const color = getStatusCssColor(status)
+  const label = escapeHtml(getStatusInfo(status).label)
+  return color ? `<span style="color: ${color}">${label}</span>` : label
+}
+
 /**
  * Formats the judge details into a more readable HTML structure
  */
@@ -809,13 +933,11 @@ function formatJudgeDetails(details: any): string {
     return ''
   }
 
-  const resultClass = `status-${details.result.toLowerCase().replace(/_/g, '-')}`
-
   const summaryHtml = `
     <div class="judge-summary">
       <h3>Summary</h3>
       <div class="judge-summary-grid">
-        <div><strong>Result:</strong> <span class="${resultClass}">${details.result.toUpperCase()}</span></div>
+        <div><strong>Result:</strong> ${formatStatus(details.result)}</div>
         <div><strong>Score:</strong> ${details.score}/100</div>
         <div><strong>Total Time:</strong> ${details.resource_usage?.time_msecs || 0} ms</div>
         <div><strong>Max Memory:</strong> ${((details.resource_usage?.memory_bytes || 0) / (1024 * 1024)).toFixed(2)} MB</div>
@@ -826,18 +948,12 @@ function formatJudgeDetails(details: any): string {
   let groupsHtml = ''
   if (details.groups && details.groups.length > 0) {
     details.groups.forEach((group: any, index: number) => {
-      const groupResult = group.result.toLowerCase()
-      const groupClass = `status-${groupResult.replace(/_/g, '-')}`
-
       let testpointsHtml = ''
       group.testpoints?.forEach((testpoint: any) => {
-        const tpResult = testpoint.result.toLowerCase()
-        const tpClass = `status-${tpResult.replace(/_/g, '-')}`
-
         testpointsHtml += `
           <tr>
             <td>#${testpoint.id}</td>
-            <td><span class="${tpClass}">${testpoint.result}</span></td>
+            <td>${formatStatus(testpoint.result)}</td>
             <td>${testpoint.score}</td>
             <td>${testpoint.resource_usage?.time_msecs || 0} ms</td>
             <td>${((testpoint.resource_usage?.memory_bytes || 0) / (1024 * 1024)).toFixed(2)} MB</td>
@@ -850,7 +966,7 @@ function formatJudgeDetails(details: any): string {
         <details class="judge-group" ${index === 0 ? 'open' : ''}>
           <summary>
             <span class="group-title">Group #${group.id}</span>
-            <span class="group-result ${groupClass}">${group.result}</span>
+            <span class="group-result">${formatStatus(group.result)}</span>
             <span class="group-score">Score: ${group.score}</span>
           </summary>
           <div class="judge-group-content">